@@ -1,9 +1,9 @@
 import 'reflect-metadata';
-import { Container } from 'typedi';
-import { ApiRegisterController, bootstrap, Leader } from '../src';
+import { ApiRegisterController, bootstrap } from '../src';
 import * as rsControllers from './controllers';
 import * as Entities from './entities';
 import * as Handlers from './events';
+import './services/ExampleLeader';
 import * as wsControllers from './wsControllers';
 
 bootstrap({
@@ -11,10 +11,6 @@ bootstrap({
   wsControllers: Object.values(wsControllers),
   entities: Object.values(Entities),
   eventsHandlers: Object.values(Handlers),
-})
-  .then(async () => {
-    await Container.get(Leader).config({ project: 'ExampleLeader' }).elect();
-  })
-  .catch((e) => {
-    console.error(e);
-  });
+}).catch((e) => {
+  console.error(e);
+});
@@ -1,9 +1,10 @@
 import { Expose } from 'class-transformer';
 import { IsOptional, IsString, MaxLength } from 'class-validator';
-import { Body, CurrentUser, Param, QueryParam, QueryParams } from 'routing-controllers';
+import { Context } from 'koa';
+import { Body, Ctx, CurrentUser, Param, QueryParam, QueryParams } from 'routing-controllers';
 import { ResponseSchema } from 'routing-controllers-openapi';
 import { Inject } from 'typedi';
-import { BizError, Delete, Get, i18n, JsonController, L1Cache, Logger, PaginationIn, Post, Put, Transform, UniversalController, ValidationHelper } from '../../src/index';
+import { BizError, CacheControl, Delete, Get, i18n, Idempotent, JsonController, L1Cache, Logger, PaginationIn, Post, Put, sendFile, StoredFile, Transform, UniversalController, UploadedFile, uploadStorage, ValidationHelper } from '../../src/index';
 import { Role, User } from '../entities';
 import { UserService } from '../services/UserService';
 import { RoleSearchVo } from '../vo/Roles';
@@ -46,6 +47,7 @@ export class UserController extends UniversalController {
   private userService: UserService;
 
   @Post('/crud/user')
+  @Idempotent()
   async createUser(@Body() user: UserVo) {
     user.isLocked = 0;
     await this.getUniversalService(User).create(user);
@@ -53,6 +55,7 @@ export class UserController extends UniversalController {
 
   @Get('/crud/user/:id')
   @Transform(UserVo)
+  @CacheControl({ maxAge: 0, private: true, mustRevalidate: true })
   async getUser(@Param('id') id: string) {
     return this.getUniversalService(User).readById(id);
   }
@@ -67,6 +70,28 @@ export class UserController extends UniversalController {
     return this.getUniversalService(User).remove(id);
   }
 
+  @Put('/crud/user/:id/avatar')
+  async uploadAvatar(@Param('id') id: string, @UploadedFile('avatar', { required: true, allowedTypes: ['image/*'], maxFileSize: 1024 * 1024 }) avatar: StoredFile) {
+    const user = await this.getUniversalService(User).readById(id);
+    if (!user) {
+      await uploadStorage().remove(avatar.key);
+      throw new BizError('error:userNotFound', {}, 404);
+    }
+    await this.getUniversalService(User).update(id, { avatar: avatar.key });
+    if (user.avatar) {
+      await uploadStorage().remove(user.avatar);
+    }
+  }
+
+  @Get('/crud/user/:id/avatar')
+  async downloadAvatar(@Param('id') id: string, @Ctx() ctx: Context) {
+    const user = await this.getUniversalService(User).readById(id);
+    if (!user?.avatar) {
+      throw new BizError('error:fileNotFound', {}, 404);
+    }
+    return sendFile(ctx, uploadStorage().source(user.avatar), { disposition: 'inline' });
+  }
+
   @Get('/crud/allUsers')
   @L1Cache({ ttlSeconds: 10 })
   async getAllUsers() {
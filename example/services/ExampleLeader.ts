@@ -0,0 +1,13 @@
+import { Service } from 'typedi';
+import { Leader, Lifecycle, OnReady } from '../../src';
+
+// the leader is stopped by GracefulShutdown with the other Leader.instances
+@Lifecycle()
+@Service()
+export class ExampleLeader implements OnReady {
+  constructor(private leader: Leader) {}
+
+  async onReady() {
+    await this.leader.config({ project: 'ExampleLeader' }).elect();
+  }
+}
@@ -1,19 +1,15 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { Inject, Service } from 'typedi';
-import { InjectRepository } from 'typeorm-typedi-extensions';
 import { PaginationOut } from '../../src/libs/Pagination';
 import { RedisClient } from '../../src/libs/RedisClient';
 import { RoleRepo, UserRepo } from '../repositories';
 import { RoleResultVo, RoleSearchVo } from '../vo/Roles';
-import { applyCache, createCache, getCache, L1Cache, L2Cache, removeCache, resetCache, updateCache } from './../../src';
+import { applyCache, createCache, getCache, InjectRepository, L1Cache, L2Cache, Lifecycle, OnStart, removeCache, resetCache, updateCache } from './../../src';
 import { User } from './../entities/User';
 
+@Lifecycle()
 @Service()
-export class Lifecycle {
-  onStart() {}
-}
-@Service()
-export class UserService extends Lifecycle {
+export class UserService implements OnStart {
   onStart() {
     console.log('onStart: UserService');
   }
@@ -0,0 +1,69 @@
+import _ from 'lodash';
+import { Action, getMetadataArgsStorage } from 'routing-controllers';
+import { AuthorizationChecker } from 'routing-controllers/types/AuthorizationChecker';
+import { AccessPolicy, accessPolicyOf, isExplicit } from './AccessPolicies';
+import { ApplicationConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { ConfigManager } from './ConfigManager';
+import { CurrentUserToken } from './CurrentUserToken';
+import { KoaHolder } from './KoaLoader';
+
+// the access policies of the actions, by their method and the path of their route, e.g. `GET /api/v1/example/user/:id`
+const routePolicies = new Map<string, AccessPolicy>();
+
+/**
+ * Keeps the access policy of an action registered with the router, e.g. `registerRouteAccessPolicy('get', '/api/v1/example/user/:id', policy)`.
+ */
+export const registerRouteAccessPolicy = (type: string, route: string | RegExp, policy: AccessPolicy) => {
+  routePolicies.set(`${type.toUpperCase()} ${route}`, policy);
+};
+
+/**
+ * The access policy of the route of the request, for the authorizationCheckers, e.g. `routeAccessPolicy(action)?.permissions`.
+ */
+export const routeAccessPolicy = (action: Action): AccessPolicy | undefined => {
+  const { method, _matchedRoute } = action.context;
+  return routePolicies.get(`${method === 'HEAD' ? 'GET' : method} ${_matchedRoute}`) ?? routePolicies.get(`ALL ${_matchedRoute}`);
+};
+
+/**
+ * Lets the @Public() and the @ServiceOnly() routes of the controllers needing users through, the authorizationChecker checks the other ones.
+ */
+export const withAccessPolicies =
+  (checker: AuthorizationChecker): AuthorizationChecker =>
+  (action, roles) => {
+    const policy = routeAccessPolicy(action);
+    return policy?.public || (policy?.services && !policy.authenticated) ? true : checker(action, roles);
+  };
+
+/**
+ * The default authorizationChecker, with the claims of the token: one of the roles, and all of the permissions of the route in `permissions`.
+ */
+export const tokenAuthorizationChecker: AuthorizationChecker = async (action, roles) => {
+  const user: CurrentUserToken | undefined = action.context.state.user ?? (await KoaHolder.currentUserChecker?.(action));
+  if (!user?.uid) {
+    return false;
+  }
+  if (roles.length > 0 && _.intersection(roles, user.roles ?? []).length === 0) {
+    return false;
+  }
+  const { appName } = ConfigManager.getConfig<ApplicationConfig>('application');
+  const missing = (routeAccessPolicy(action)?.permissions ?? []).map((permission) => `${appName}.${permission}`).find((functionName) => !user.permissions?.includes(functionName));
+  if (missing) {
+    throw new BizError('error:accessDenied', { functionName: missing }, 403);
+  }
+  return true;
+};
+
+/**
+ * The routes of the controllers which nobody said who may call, e.g. `GET /user/:id`.
+ */
+export const unprotectedRoutes = (controllers: Function[]) => {
+  const storage = getMetadataArgsStorage();
+  return storage.actions
+    .filter((action) => controllers.includes(action.target) && !isExplicit(accessPolicyOf(action.target, action.method)))
+    .map((action) => {
+      const controller = storage.controllers.find((c) => c.target === action.target);
+      return `${action.type.toUpperCase()} ${controller?.route ?? ''}${action.route}`;
+    });
+};
@@ -0,0 +1,81 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Context, Middleware } from 'koa';
+import _ from 'lodash';
+import { jwtUtil } from '../utils/jwtUtil';
+import { apiPrefix, requestApiVersion } from './ApiVersions';
+import { JwtConfig } from './ApplicationConfig';
+import { ConfigManager } from './ConfigManager';
+import { CurrentUserToken } from './CurrentUserToken';
+import { AccessLogConfig, Logger, LoggerConfig } from './Logger';
+import { CLIENT_CLOSED_REQUEST } from './RequestTimeout';
+
+const REDACTED = '[REDACTED]';
+
+const redactValues = (values: Record<string, any>, redact: string[]) => _.mapValues(values, (value, name) => (redact.includes(name.toLowerCase()) ? REDACTED : value));
+
+// set by the currentUserChecker, or read from the token when the route did not ask for the user
+const uidOf = (ctx: Context) => {
+  const authorization = ctx.get('Authorization');
+  try {
+    const user: CurrentUserToken | null | undefined = ctx.state.user ?? (authorization ? jwtUtil.decodeJwt(authorization, ConfigManager.getConfig<JwtConfig>('jwt').verify) : undefined);
+    return user?.uid;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const isExcluded = (cfg: AccessLogConfig, route: string) => {
+  const version = requestApiVersion(route);
+  const prefix = version ? apiPrefix(version) : '';
+  const path = route.startsWith(prefix) ? route.substring(prefix.length) : route;
+  return cfg.exclude.some((excluded) => path.startsWith(excluded));
+};
+
+/**
+ * Logs a line per request once the response is sent, with the route template instead of the url, e.g.
+ * `{"method":"GET","route":"/api/v1/example/user/:id","status":200,"latency":3.2,"bytes":512,"uid":"u1","requestId":"..."}`.
+ * logger.accessLog of logger.yml sets the sampling, the exclusions and the redactions.
+ */
+export const accessLog = (): Middleware => async (ctx, next) => {
+  const cfg = ConfigManager.getConfig<LoggerConfig>('logger').accessLog;
+  if (!cfg.enabled) {
+    return next();
+  }
+  const startedAt = process.hrtime.bigint();
+  const socket = ctx.req.socket;
+  // the bytes sent for the response, headers included like $bytes_sent of nginx
+  const bytesWritten = socket.bytesWritten;
+  const done = _.once(() => {
+    const status = ctx.res.writableFinished ? ctx.status : CLIENT_CLOSED_REQUEST;
+    const route: string | undefined = (ctx as any)._matchedRoute;
+    if (isExcluded(cfg, route ?? ctx.path) || (status < 500 && Math.random() >= cfg.sampleRate)) {
+      return;
+    }
+    const redact = cfg.redact.map((name) => name.toLowerCase());
+    const headers = cfg.headers.map((name) => name.toLowerCase());
+    const entry = {
+      requestId: ctx.state.requestId,
+      method: ctx.method,
+      route,
+      status,
+      // milliseconds
+      latency: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e4) / 100,
+      bytes: socket.bytesWritten - bytesWritten,
+      uid: uidOf(ctx),
+      ip: ctx.ip,
+      query: _.isEmpty(ctx.query) ? undefined : redactValues(ctx.query, redact),
+      headers: redactValues(_.pick(ctx.headers, headers), redact),
+    };
+    const logger = Logger.getLogger('AccessLog');
+    if (status >= 500) {
+      logger.error(entry, 'request completed');
+    } else if (status >= 400) {
+      logger.warn(entry, 'request completed');
+    } else {
+      logger.info(entry, 'request completed');
+    }
+  });
+  ctx.res.once('finish', done);
+  ctx.res.once('close', done);
+  await next();
+};
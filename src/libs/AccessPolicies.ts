@@ -0,0 +1,144 @@
+import _ from 'lodash';
+import { Authorized, getMetadataArgsStorage } from 'routing-controllers';
+
+export type AccessPolicy = {
+  // no user needed, the authorizationChecker is skipped
+  public?: boolean;
+  // a user is needed, by @Authorized(), @RequireRole() or @RequirePermission()
+  authenticated?: boolean;
+  // the user needs one of them
+  roles?: string[];
+  // the user needs all of them, the functionNames without the appName, e.g. system.role
+  permissions?: string[];
+  // only the services of serviceAuth.callers, the allowed apps or [] for every caller
+  services?: string[];
+};
+
+// the names of the security schemes of the OpenAPI spec
+export const BEARER_AUTH = 'bearerAuth';
+export const SERVICE_API_KEY = 'serviceApiKey';
+export const SERVICE_SIGNATURE = 'serviceSignature';
+
+type DeclaredPolicy = Pick<AccessPolicy, 'public' | 'permissions' | 'services'>;
+
+const controllerPolicies = new Map<Function, DeclaredPolicy>();
+const methodPolicies = new Map<Function, Map<string, DeclaredPolicy>>();
+
+const declare = (target: object, propertyKey: string | symbol | undefined, policy: DeclaredPolicy) => {
+  if (propertyKey === undefined) {
+    const declared = controllerPolicies.get(target as Function) ?? {};
+    controllerPolicies.set(target as Function, { ...declared, ...policy, permissions: _.union(declared.permissions, policy.permissions) });
+    return;
+  }
+  const methods = methodPolicies.get(target.constructor) ?? new Map<string, DeclaredPolicy>();
+  const declared = methods.get(propertyKey.toString()) ?? {};
+  methods.set(propertyKey.toString(), { ...declared, ...policy, permissions: _.union(declared.permissions, policy.permissions) });
+  methodPolicies.set(target.constructor, methods);
+};
+
+const authorize = (target: object, propertyKey: string | symbol | undefined, roles: string[]) => Authorized(roles)(target as Function, propertyKey?.toString() as string);
+
+const authorizedHandlers = (target: Function, method?: string) => getMetadataArgsStorage().responseHandlers.filter((h) => h.type === 'authorized' && h.target === target && h.method === method);
+
+// the roles of every @Authorized() of the method, or of the controller
+const authorizedRoles = (target: Function, method?: string) => {
+  const handlers = authorizedHandlers(target, method);
+  return handlers.length > 0 ? _.union(...handlers.map((h) => _.castArray(h.value ?? []))) : undefined;
+};
+
+/**
+ * routing-controllers takes the first @Authorized() of a method or a controller only, the roles of the other ones
+ * (@RequireRole() and @RequirePermission() add one too) are added to it, in whatever order they are declared.
+ * The @Authorized() taking an authorization checker class are left as they are.
+ */
+export const mergeAuthorizedRoles = (target: Function) => {
+  const storage = getMetadataArgsStorage();
+  [undefined, ...storage.actions.filter((action) => action.target === target).map((action) => action.method)].forEach((method) => {
+    const handlers = authorizedHandlers(target, method);
+    if (handlers.length > 0 && !handlers.some((h) => typeof h.value === 'function')) {
+      handlers[0].value = authorizedRoles(target, method);
+    }
+  });
+};
+
+/**
+ * The policy of the method merged with the one of its controller, the public methods of a controller needing users are public.
+ */
+export const accessPolicyOf = (target: Function, method?: string): AccessPolicy => {
+  const controller = controllerPolicies.get(target) ?? {};
+  const declared = (method ? methodPolicies.get(target)?.get(method) : undefined) ?? {};
+  const methodRoles = method ? authorizedRoles(target, method) : undefined;
+  // the services calling a @ServiceOnly() method carry no user token, the users needed by the controller are not
+  const inherited = !declared.services;
+  const controllerRoles = inherited ? authorizedRoles(target) : undefined;
+  const permissions = _.union(inherited ? controller.permissions : [], declared.permissions);
+  const authenticated = !!controllerRoles || !!methodRoles || permissions.length > 0;
+  // a requirement of the method wins over the controller being public
+  const isPublic = declared.public ?? (controller.public && !methodRoles && _.isEmpty(declared.permissions) && !declared.services);
+  const roles = _.union(controllerRoles, methodRoles);
+  const services = declared.services ?? controller.services;
+  const policy: AccessPolicy = {};
+  if (isPublic) {
+    policy.public = true;
+  }
+  if (authenticated) {
+    policy.authenticated = true;
+  }
+  if (roles.length > 0) {
+    policy.roles = roles;
+  }
+  if (permissions.length > 0) {
+    policy.permissions = permissions;
+  }
+  if (services) {
+    policy.services = services;
+  }
+  return policy;
+};
+
+/**
+ * Whether the policy says who may call the route, the routes without are reported on startup.
+ */
+export const isExplicit = (policy: AccessPolicy) => !!(policy.public || policy.authenticated || policy.services);
+
+/**
+ * The security requirements of the OpenAPI spec, the permissions are the scopes of the bearer token as OpenAPI 3.1 allows.
+ */
+export const securityOf = (policy: AccessPolicy, appName: string) => {
+  if (policy.public) {
+    return [];
+  }
+  if (policy.services) {
+    return [{ [SERVICE_API_KEY]: [] }, { [SERVICE_SIGNATURE]: [] }];
+  }
+  if (policy.authenticated) {
+    return [{ [BEARER_AUTH]: (policy.permissions ?? []).map((permission) => `${appName}.${permission}`) }];
+  }
+  return undefined;
+};
+
+export const declareServices = (target: object, propertyKey: string | symbol | undefined, apps: string[]) => declare(target, propertyKey, { services: apps });
+
+/**
+ * No user needed for the route, or the routes of the controller, even when the controller needs one, e.g. `@Public()`.
+ */
+export const Public = () => (target: object, propertyKey?: string | symbol) => declare(target, propertyKey, { public: true });
+
+/**
+ * The user needs one of the roles, checked by the authorizationChecker like `@Authorized(roles)`, e.g. `@RequireRole('admin')`.
+ */
+export const RequireRole =
+  (...roles: string[]) =>
+  (target: object, propertyKey?: string | symbol) =>
+    authorize(target, propertyKey, roles);
+
+/**
+ * The user needs all of the permissions, the functionNames of this application without the appName, e.g. `@RequirePermission('system.role')`.
+ * The authorizationChecker gets them from the access policy of the route, see routeAccessPolicy().
+ */
+export const RequirePermission =
+  (...permissions: string[]) =>
+  (target: object, propertyKey?: string | symbol) => {
+    authorize(target, propertyKey, []);
+    declare(target, propertyKey, { permissions });
+  };
@@ -3,7 +3,8 @@ import _ from 'lodash';
 import { MicroframeworkSettings } from 'microframework';
 import * as tpl from './apisix/ApisixTemplate';
 import { httpPut } from './apisix/HttpPutter';
-import { ApplicationConfig } from './ApplicationConfig';
+import { servedApiVersions } from './ApiVersions';
+import { ApisixConfig, ApplicationConfig } from './ApplicationConfig';
 import { ConfigManager } from './ConfigManager';
 import { Logger } from './Logger';
 
@@ -13,12 +14,13 @@ const sleep = (ms: number) => {
   return new Promise((resolve) => setTimeout(resolve, ms));
 };
 
+export const isApiGatewayEnabled = () => !ConfigManager.isDevelopment() && _.isEqual((process.env['ENABLE_API_GATEWAY'] ?? '').toLowerCase().trim(), 'true');
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 export const apiGatewayLoader = (option: ApiGatewayLoaderOption) => async (settings?: MicroframeworkSettings) => {
-  const enableApiGateway = process.env['ENABLE_API_GATEWAY'];
   const enableApiGatewayAuth = 'true' === process.env['ENABLE_API_GATEWAY_AUTH'];
 
-  if (!ConfigManager.isDevelopment() && _.isEqual((enableApiGateway ?? '').toLowerCase().trim(), 'true')) {
+  if (isApiGatewayEnabled()) {
     const apiGatewayHostPort = process.env['API_GATEWAY_HOST_PORT'] ?? '';
     const [host, _port] = apiGatewayHostPort.split(':');
     const hostPort = _.parseInt(_port ?? '80');
@@ -33,7 +35,7 @@ export const apiGatewayLoader = (option: ApiGatewayLoaderOption) => async (setti
     const build = ConfigManager.getBuildNumber();
     const version = ConfigManager.getPkgVersion();
 
-    const { apiKey } = ConfigManager.getConfig<{ apiKey: string }>('apisix');
+    const { apiKey } = ConfigManager.getConfig<ApisixConfig>('apisix');
 
     const upstreamUri = tpl.upstreamUriTemplate(appName);
     const upstreamReqData = tpl.upstreamTemplate(appName, apiVersion, appPort);
@@ -42,7 +44,7 @@ export const apiGatewayLoader = (option: ApiGatewayLoaderOption) => async (setti
     const serviceReqData = tpl.serviceTemplate(appName, enableApiGatewayAuth);
 
     const routeUri = tpl.routeUriTemplate(appName);
-    const routeReqData = tpl.routeTemplate(appName, domains, apiVersion, build, version);
+    const routeReqData = tpl.routeTemplate(appName, domains, servedApiVersions(), build, version);
 
     const logger = Logger.getLogger('ApiGatewayLoader');
 
@@ -1,51 +1,59 @@
 import jsyaml from 'js-yaml';
+import { Context } from 'koa';
 import _ from 'lodash';
 import * as rc from 'routing-controllers';
+import { Public } from './AccessPolicies';
+import { ApiVersion, defaultApiVersion, requestApiVersion } from './ApiVersions';
 import { ApplicationConfig } from './ApplicationConfig';
 import { ConfigManager } from './ConfigManager';
 import { Converter, pathReplacer } from './Converter';
 import { Get, httpMethodsRegistry, JsonController } from './HttpMethods';
 import { Logger } from './Logger';
+import { ServiceOnly } from './ServiceAuth';
 
 export const API_EXPORT_EXCLUSION = [];
 
-const getBaseUrl = () => {
-  const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
-  return `/api/v${appCfg.version}`;
+const getBaseUrl = (version: ApiVersion) => {
+  return `/api/v${version}`;
 };
+// the controller serves every version, the docs are of the requested one
+const versionOf = (ctx: Context) => requestApiVersion(ctx.path) ?? defaultApiVersion();
 const getHost = () => {
   const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
   return `http://${appCfg.appName}:${appCfg.port}`;
 };
 
-@JsonController()
+@JsonController(undefined, { versions: '*' })
 export class ApiRegisterController {
   private logger = Logger.getLogger(ApiRegisterController);
 
   @Get('/api/list')
-  async showAllApisOfThisModule() {
-    return Converter.api(httpMethodsRegistry);
+  @Public()
+  async showAllApisOfThisModule(@rc.Ctx() ctx: Context) {
+    return Converter.api(httpMethodsRegistry, versionOf(ctx));
   }
 
   @Get('/')
+  @Public()
   @rc.ContentType('text/html')
-  async index() {
+  async index(@rc.Ctx() ctx: Context) {
     const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
+    const version = versionOf(ctx);
     return `
         <html>
         <body>
-        <h1>${appCfg.appName} API v${appCfg.version}/${ConfigManager.getPkgVersion()}/${ConfigManager.getBuildNumber()}</h1>
+        <h1>${appCfg.appName} API v${version}/${ConfigManager.getPkgVersion()}/${ConfigManager.getBuildNumber()}</h1>
         <h2>
             <ol>
-                <li><a href="/api/v${appCfg.version}/${appCfg.appName}/api/openapi">[JSON] OpenAPI spec</a></li>
+                <li><a href="/api/v${version}/${appCfg.appName}/api/openapi">[JSON] OpenAPI spec</a></li>
                 <hr>
-                <li><a href="/api/v${appCfg.version}/${appCfg.appName}/api/web/CommonApiParam.yaml">[YAML] Frontend web CommonApiParam.yaml</a></li>
-                <li><a href="/api/v${appCfg.version}/${appCfg.appName}/api/web/API.yaml">[YAML] Frontend web APIs: API.yaml</a></li>
-                <li><a href="/api/v${appCfg.version}/${appCfg.appName}/api/web/API.json">[JSON] Frontend web APIs: API.json</a></li>
+                <li><a href="/api/v${version}/${appCfg.appName}/api/web/CommonApiParam.yaml">[YAML] Frontend web CommonApiParam.yaml</a></li>
+                <li><a href="/api/v${version}/${appCfg.appName}/api/web/API.yaml">[YAML] Frontend web APIs: API.yaml</a></li>
+                <li><a href="/api/v${version}/${appCfg.appName}/api/web/API.json">[JSON] Frontend web APIs: API.json</a></li>
                 <hr>
-                <li><a href="/api/v${appCfg.version}/${appCfg.appName}/api/svc/CommonApiParam.yaml">[YAML] Backend micro service CommonApiParam.yaml</a></li>
-                <li><a href="/api/v${appCfg.version}/${appCfg.appName}/api/svc/API.yaml">[YAML] Backend micro service APIs: API.yaml</a></li>
-                <li><a href="/api/v${appCfg.version}/${appCfg.appName}/api/svc/API.json">[JSON] Backend micro service APIs: API.json</a></li>
+                <li><a href="/api/v${version}/${appCfg.appName}/api/svc/CommonApiParam.yaml">[YAML] Backend micro service CommonApiParam.yaml</a></li>
+                <li><a href="/api/v${version}/${appCfg.appName}/api/svc/API.yaml">[YAML] Backend micro service APIs: API.yaml</a></li>
+                <li><a href="/api/v${version}/${appCfg.appName}/api/svc/API.json">[JSON] Backend micro service APIs: API.json</a></li>
             </ol>
         </h2>
         </body>
@@ -54,12 +62,14 @@ export class ApiRegisterController {
   }
 
   @Get('/api/web/CommonApiParam.yaml')
-  async restClientConfigWebCommonApiParamWeb() {
+  @Public()
+  async restClientConfigWebCommonApiParamWeb(@rc.Ctx() ctx: Context) {
     const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
+    const version = versionOf(ctx);
     const exclusion = API_EXPORT_EXCLUSION.map((ex) => _.trim(ex));
     exclusion.push(`${appCfg.appName}.api.doc`);
     // response.type = 'text/yaml; charset=utf-8';
-    const baseUrl = getBaseUrl();
+    const baseUrl = getBaseUrl(version);
     const apis = {
       [`${appCfg.appName}BaseUrl`]: baseUrl,
     };
@@ -67,13 +77,15 @@ export class ApiRegisterController {
   }
 
   @Get('/api/web/API.yaml')
-  async restClientConfigWeb() {
+  @Public()
+  async restClientConfigWeb(@rc.Ctx() ctx: Context) {
     const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
+    const version = versionOf(ctx);
     const exclusion = API_EXPORT_EXCLUSION.map((ex) => _.trim(ex));
     exclusion.push(`${appCfg.appName}.api.doc`);
     const apis = {};
-    const baseUrl = getBaseUrl();
-    Converter.apiAll(httpMethodsRegistry)
+    const baseUrl = getBaseUrl(version);
+    Converter.apiAll(httpMethodsRegistry, version)
       .filter((api) => exclusion.indexOf(api.apiName!) === -1 && !api.apiName!.startsWith('internal'))
       .forEach((api) => {
         _.set(apis, api.apiName!, {
@@ -85,13 +97,15 @@ export class ApiRegisterController {
   }
 
   @Get('/api/web/API.json')
-  async restClientWebApis() {
+  @Public()
+  async restClientWebApis(@rc.Ctx() ctx: Context) {
     const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
+    const version = versionOf(ctx);
     const exclusion = API_EXPORT_EXCLUSION.map((ex) => _.trim(ex));
     exclusion.push(`${appCfg.appName}.api.doc`);
     // response.type = 'text/yaml; charset=utf-8';
     const apis = {};
-    Converter.apiAll(httpMethodsRegistry)
+    Converter.apiAll(httpMethodsRegistry, version)
       .filter((api) => exclusion.indexOf(api.apiName!) === -1 && !api.apiName!.startsWith('internal'))
       .forEach((api) => {
         _.set(apis, api.apiName!, api.apiName!);
@@ -100,12 +114,14 @@ export class ApiRegisterController {
   }
 
   @Get('/api/svc/CommonApiParam.yaml')
-  async restClientConfigWebCommonApiParamSvc() {
+  @ServiceOnly()
+  async restClientConfigWebCommonApiParamSvc(@rc.Ctx() ctx: Context) {
     const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
+    const version = versionOf(ctx);
     const exclusion = API_EXPORT_EXCLUSION.map((ex) => _.trim(ex));
     exclusion.push(`${appCfg.appName}.api.doc`);
     // response.type = 'text/yaml; charset=utf-8';
-    const baseUrl = getBaseUrl();
+    const baseUrl = getBaseUrl(version);
     const host = getHost();
     const apis = {
       [`${appCfg.appName}BaseUrl`]: `${host}${baseUrl}`,
@@ -114,13 +130,15 @@ export class ApiRegisterController {
   }
 
   @Get('/api/svc/API.yaml')
-  async restClientConfigService() {
+  @ServiceOnly()
+  async restClientConfigService(@rc.Ctx() ctx: Context) {
     const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
+    const version = versionOf(ctx);
     const exclusion = API_EXPORT_EXCLUSION.map((ex) => _.trim(ex));
     exclusion.push(`${appCfg.appName}.api.doc`);
     // response.type = 'text/yaml; charset=utf-8';
     const apis = {};
-    Converter.apiAll(httpMethodsRegistry)
+    Converter.apiAll(httpMethodsRegistry, version)
       .filter((api) => exclusion.indexOf(api.apiName!) === -1)
       .forEach((api) => {
         _.set(apis, api.apiName!, {
@@ -132,13 +150,15 @@ export class ApiRegisterController {
   }
 
   @Get('/api/svc/API.json')
-  async restClientSvcApi() {
+  @ServiceOnly()
+  async restClientSvcApi(@rc.Ctx() ctx: Context) {
     const appCfg = ConfigManager.getConfig<ApplicationConfig>('application');
+    const version = versionOf(ctx);
     const exclusion = API_EXPORT_EXCLUSION.map((ex) => _.trim(ex));
     exclusion.push(`${appCfg.appName}.api.doc`);
     // response.type = 'application/json; charset=utf-8';
     const apis = {};
-    Converter.apiAll(httpMethodsRegistry)
+    Converter.apiAll(httpMethodsRegistry, version)
       .filter((api) => exclusion.indexOf(api.apiName!) === -1)
       .map((api) => {
         api.apiName! = api.apiName!.replace('_internal.', 'internal.');
@@ -0,0 +1,83 @@
+import _ from 'lodash';
+import { getMetadataArgsStorage } from 'routing-controllers';
+import { ApplicationConfig } from './ApplicationConfig';
+import { ConfigManager } from './ConfigManager';
+
+export type ApiVersion = number | string;
+
+// '*' serves every version of the application, e.g. the health check and the api docs
+export type ApiVersions = ApiVersion[] | '*';
+
+const controllerVersions = new Map<Function, ApiVersions>();
+const methodVersions = new Map<Function, Map<string, ApiVersions>>();
+
+/**
+ * ApplicationConfig.version, served by the controllers which declare no versions.
+ */
+export const defaultApiVersion = () => `${ConfigManager.getConfig<ApplicationConfig>('application').version}`;
+
+export const apiPrefix = (version: ApiVersion) => `/api/v${version}/${ConfigManager.getConfig<ApplicationConfig>('application').appName}`;
+
+export const setControllerVersions = (target: Function, versions: ApiVersions) => {
+  controllerVersions.set(target, versions);
+};
+
+/**
+ * The versions declared by the method, or by its controller.
+ */
+export const versionsOf = (target: Function, method?: string): ApiVersions | undefined => {
+  const versions = method ? methodVersions.get(target)?.get(method) : undefined;
+  return versions ?? controllerVersions.get(target);
+};
+
+export const servesVersion = (versions: ApiVersions | undefined, version: ApiVersion) => versions === '*' || (versions ?? [defaultApiVersion()]).some((v) => `${v}` === `${version}`);
+
+/**
+ * Every version declared by a controller or a method, and the default one, in ascending order.
+ */
+export const servedApiVersions = () => {
+  const declared = [...controllerVersions.values(), ...[...methodVersions.values()].flatMap((methods) => [...methods.values()])];
+  const versions = _.uniq([defaultApiVersion(), ...declared.flatMap((versions) => (versions === '*' ? [] : versions.map((v) => `${v}`)))]);
+  return _.sortBy(
+    versions,
+    (v) => (isNaN(Number(v)) ? Infinity : Number(v)),
+    (v) => v,
+  );
+};
+
+/**
+ * The version of the request path /api/v{version}/..., undefined outside of the api.
+ */
+export const requestApiVersion = (path: string) => /^\/api\/v([^/]+)\//.exec(path)?.[1];
+
+/**
+ * Runs fn with only the actions of the version left in the metadata of routing-controllers,
+ * so that registering the routes or generating the OpenAPI spec sees the routes of that version only.
+ */
+export const withVersionActions = <T>(version: ApiVersion, fn: () => T): T => {
+  const storage = getMetadataArgsStorage();
+  const { actions } = storage;
+  storage.actions = actions.filter((action) => servesVersion(versionsOf(action.target, action.method), version));
+  try {
+    return fn();
+  } finally {
+    storage.actions = actions;
+  }
+};
+
+/**
+ * The API versions served by a controller class or by a method, e.g. `@Versions(1, 2)`.
+ * The method versions replace the versions of the controller.
+ */
+export const Versions = (...versions: ApiVersion[] | ['*']) => {
+  const declared: ApiVersions = versions[0] === '*' ? '*' : versions;
+  return (target: object, propertyKey?: string | symbol) => {
+    if (propertyKey === undefined) {
+      setControllerVersions(target as Function, declared);
+      return;
+    }
+    const methods = methodVersions.get(target.constructor) ?? new Map<string, ApiVersions>();
+    methods.set(propertyKey.toString(), declared);
+    methodVersions.set(target.constructor, methods);
+  };
+};
@@ -1,15 +1,556 @@
-export interface ApplicationConfig {
+import { Type } from 'class-transformer';
+import { IsBoolean, IsDefined, IsIn, IsInt, IsNotEmpty, IsObject, IsOptional, IsString, Max, Min, ValidateIf, ValidateNested } from 'class-validator';
+import { ConfigFile, ValidateNestedRecord } from './ConfigManager';
+
+export class ShutdownConfig {
+  // milliseconds to keep serving after /_healthcheck turns not-ready
+  @IsInt()
+  @Min(0)
+  readinessDelay = 8000;
+
+  // hard limit of the whole shutdown, the process exits with code 1 when exceeded
+  @IsInt()
+  @Min(0)
+  gracePeriod = 30000;
+}
+
+export class CompressionConfig {
+  @IsBoolean()
+  enabled = true;
+
+  // bytes, the smaller responses are not compressed
+  @IsInt()
+  @Min(0)
+  threshold = 1024;
+
+  // in the order of preference
+  @IsIn(['br', 'gzip', 'deflate'], { each: true })
+  encodings: string[] = ['br', 'gzip', 'deflate'];
+}
+
+export class SecurityHeadersConfig {
+  @IsBoolean()
+  enabled = true;
+
+  // helmet options, e.g. { contentSecurityPolicy: false }
+  @IsOptional()
+  @IsObject()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  options?: Record<string, any>;
+}
+
+export class CorsConfig {
+  @IsBoolean()
+  enabled = true;
+
+  // '*' allows any origin
+  @IsString({ each: true })
+  origins: string[] = ['*'];
+
+  @IsString({ each: true })
+  methods: string[] = ['GET', 'HEAD', 'PUT', 'POST', 'DELETE', 'PATCH'];
+
+  @IsBoolean()
+  credentials = false;
+
+  @IsOptional()
+  @IsString({ each: true })
+  allowHeaders?: string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  exposeHeaders?: string[];
+
+  // seconds the preflight response can be cached
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxAge?: number;
+}
+
+export class BodyConfig {
+  // a size like 1mb or 56kb
+  @IsString()
+  jsonLimit = '1mb';
+
+  @IsString()
+  formLimit = '56kb';
+
+  @IsString()
+  textLimit = '1mb';
+
+  @IsIn(['json', 'form', 'text', 'xml'], { each: true })
+  enableTypes: string[] = ['json', 'form'];
+
+  // rejects the request bodies of the other content types with 415, multipart is handled by the upload controllers
+  @IsBoolean()
+  strictContentType = true;
+}
+
+export class RateLimitConfig {
+  // the global limit of every route, the routes with @RateLimit() have their own limits on top of it
+  @IsBoolean()
+  enabled = false;
+
+  // requests allowed in a window
+  @IsInt()
+  @Min(1)
+  points = 100;
+
+  // seconds
+  @IsInt()
+  @Min(1)
+  window = 60;
+
+  @IsIn(['ip', 'user'])
+  key: 'ip' | 'user' = 'ip';
+
+  @IsIn(['sliding-window', 'token-bucket'])
+  algorithm: 'sliding-window' | 'token-bucket' = 'sliding-window';
+
+  // path prefixes after the route prefix which are not limited
+  @IsString({ each: true })
+  exclude: string[] = ['/_healthcheck'];
+}
+
+export class IdempotencyConfig {
+  // honours the Idempotency-Key header on every route of the methods, @Idempotent() does it for a route
+  @IsBoolean()
+  enabled = false;
+
+  @IsIn(['POST', 'PUT', 'PATCH', 'DELETE'], { each: true })
+  methods: string[] = ['POST', 'PUT', 'DELETE'];
+
+  // seconds the responses are kept for the retries
+  @IsInt()
+  @Min(1)
+  ttl = 86400;
+
+  // seconds a request may hold the key, the duplicates wait for it that long
+  @IsInt()
+  @Min(1)
+  lockTimeout = 30;
+}
+
+export class TimeoutConfig {
+  // milliseconds a request may take, 0 for no limit, @Timeout() sets the limit of a route
+  @IsInt()
+  @Min(0)
+  ms = 30000;
+
+  // the status of the timed out requests
+  @IsIn([503, 504])
+  status: 503 | 504 = 503;
+}
+
+export class ETagConfig {
+  // ETag of the JSON responses of GET, 304 for If-None-Match and If-Modified-Since
+  @IsBoolean()
+  enabled = true;
+
+  @IsBoolean()
+  weak = false;
+}
+
+export class UploadConfig {
+  // bytes of a file, larger uploads are rejected with 413
+  @IsInt()
+  @Min(1)
+  maxFileSize = 10 * 1024 * 1024;
+
+  // files of a request
+  @IsInt()
+  @Min(1)
+  maxFiles = 10;
+
+  // mime types ('image/*' for all the images) or extensions ('.pdf'), empty for any
+  @IsString({ each: true })
+  allowedTypes: string[] = [];
+
+  // where LocalUploadStorage keeps the files
+  @IsString()
+  @IsNotEmpty()
+  dir = './uploads';
+}
+
+export class HttpConfig {
+  // trusts the X-Forwarded-* headers, e.g. for the client ip, only behind an api gateway which overwrites them
+  @IsBoolean()
+  trustProxy = false;
+
+  @ValidateNested()
+  @Type(() => CompressionConfig)
+  compression: CompressionConfig = new CompressionConfig();
+
+  @ValidateNested()
+  @Type(() => SecurityHeadersConfig)
+  securityHeaders: SecurityHeadersConfig = new SecurityHeadersConfig();
+
+  @ValidateNested()
+  @Type(() => CorsConfig)
+  cors: CorsConfig = new CorsConfig();
+
+  @ValidateNested()
+  @Type(() => BodyConfig)
+  body: BodyConfig = new BodyConfig();
+
+  @ValidateNested()
+  @Type(() => RateLimitConfig)
+  rateLimit: RateLimitConfig = new RateLimitConfig();
+
+  @ValidateNested()
+  @Type(() => IdempotencyConfig)
+  idempotency: IdempotencyConfig = new IdempotencyConfig();
+
+  @ValidateNested()
+  @Type(() => TimeoutConfig)
+  timeout: TimeoutConfig = new TimeoutConfig();
+
+  @ValidateNested()
+  @Type(() => ETagConfig)
+  etag: ETagConfig = new ETagConfig();
+
+  @ValidateNested()
+  @Type(() => UploadConfig)
+  upload: UploadConfig = new UploadConfig();
+}
+
+@ConfigFile('application')
+export class ApplicationConfig {
+  @IsString()
+  @IsNotEmpty()
   appName: string;
+
+  // the major api version, part of the url /api/v{version}/{appName}
+  @IsNotEmpty()
   version: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(65535)
   port: number;
+
+  @ValidateIf((cfg: ApplicationConfig) => !cfg.privateKey)
+  @IsString()
+  @IsNotEmpty()
   privateKeyPath: string;
+
+  @ValidateIf((cfg: ApplicationConfig) => !cfg.publicKey)
+  @IsString()
+  @IsNotEmpty()
   publicKeyPath: string;
+
+  // the key contents, usually a secret://file/... or enc:... value, used instead of the key paths
+  @IsOptional()
+  @IsString()
+  privateKey?: string;
+
+  @IsOptional()
+  @IsString()
+  publicKey?: string;
+
+  // the http proxy of the development machine, e.g. in application.development.yml
+  @IsOptional()
+  @IsString()
+  proxy?: string;
+
+  @ValidateNested()
+  @Type(() => ShutdownConfig)
+  shutdown: ShutdownConfig = new ShutdownConfig();
+
+  @ValidateNested()
+  @Type(() => HttpConfig)
+  http: HttpConfig = new HttpConfig();
 }
 
-export interface DatabaseConfig {
-  mariaDBUrl: string;
+export const DATABASE_TYPES = ['mysql', 'mariadb', 'postgres', 'sqlite', 'better-sqlite3'] as const;
+
+export type DatabaseType = (typeof DATABASE_TYPES)[number];
+
+export class DataSourceConfig {
+  // taken from the url scheme when omitted
+  @IsOptional()
+  @IsIn(DATABASE_TYPES)
+  type?: DatabaseType;
+
+  @ValidateIf((cfg: DataSourceConfig) => !cfg.mariaDBUrl)
+  @IsString()
+  @IsNotEmpty()
+  url?: string;
+
+  // legacy, same as url with type mariadb
+  @IsOptional()
+  @IsString()
+  mariaDBUrl?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  poolSize?: number;
+
+  // mysql/mariadb only
+  @IsOptional()
+  @IsString()
+  charset?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  synchronize?: boolean;
+}
+
+@ConfigFile('database')
+export class DatabaseConfig extends DataSourceConfig {
+  // named connections besides the default one, entities are assigned with @UseDataSource(name)
+  @IsOptional()
+  @ValidateNestedRecord(() => DataSourceConfig)
+  connections?: Record<string, DataSourceConfig>;
+
+  // redis url, or the ioredis options
+  @IsDefined()
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   redis: string | any;
+
   // where to store the generated files
+  @IsOptional()
+  @IsString()
   output: string;
+
+  // where gen:migration stores the migrations, default to {output}/migrations
+  @IsOptional()
+  @IsString()
+  migrationsDir?: string;
+}
+
+@ConfigFile('apisix')
+export class ApisixConfig {
+  // admin key of the APISIX admin api
+  @IsString()
+  @IsNotEmpty()
+  apiKey: string;
+}
+
+@ConfigFile('openapiCfg')
+export class OpenApiConfig {
+  // disables /api-docs and the generated API.yaml
+  @IsBoolean()
+  disabled = false;
+}
+
+export const STORAGE_DRIVERS = ['local', 's3'] as const;
+
+export type StorageDriverName = (typeof STORAGE_DRIVERS)[number];
+
+export class LocalStorageConfig {
+  @IsString()
+  @IsNotEmpty()
+  dir = './storage';
+
+  // where the clients reach StorageController with the presigned urls, defaults to http://localhost:{port}/api/v{version}/{appName}
+  @IsOptional()
+  @IsString()
+  baseUrl?: string;
+}
+
+export class S3StorageConfig {
+  // e.g. https://s3.us-east-1.amazonaws.com, or http://localhost:9000 of a MinIO
+  @IsString()
+  @IsNotEmpty()
+  endpoint: string;
+
+  @IsString()
+  @IsNotEmpty()
+  region = 'us-east-1';
+
+  @IsString()
+  @IsNotEmpty()
+  bucket: string;
+
+  @IsString()
+  @IsNotEmpty()
+  accessKeyId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  secretAccessKey: string;
+
+  // http://endpoint/bucket/key instead of http://bucket.endpoint/key, required by most of the S3-compatible servers
+  @IsBoolean()
+  forcePathStyle = true;
+}
+
+@ConfigFile('storage')
+export class StorageConfig {
+  @IsIn(STORAGE_DRIVERS)
+  driver: StorageDriverName = 'local';
+
+  // seconds the presigned urls are valid by default
+  @IsInt()
+  @Min(1)
+  presignExpires = 3600;
+
+  @ValidateIf((cfg: StorageConfig) => cfg.driver === 'local')
+  @ValidateNested()
+  @Type(() => LocalStorageConfig)
+  local: LocalStorageConfig = new LocalStorageConfig();
+
+  @ValidateIf((cfg: StorageConfig) => cfg.driver === 's3')
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => S3StorageConfig)
+  s3?: S3StorageConfig;
+}
+
+export class JwtKeyConfig {
+  // the kid of the tokens signed with the key, and of the key in the JWKS
+  @IsString()
+  @IsNotEmpty()
+  kid: string;
+
+  @IsIn(['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'])
+  algorithm = 'RS256';
+
+  // PEM, usually a secret://file/... or enc:... value, or privateKeyPath. Only the key signing the tokens needs it
+  @IsOptional()
+  @IsString()
+  privateKey?: string;
+
+  @IsOptional()
+  @IsString()
+  privateKeyPath?: string;
+
+  // PEM or publicKeyPath, derived from the private key when absent
+  @IsOptional()
+  @IsString()
+  publicKey?: string;
+
+  @IsOptional()
+  @IsString()
+  publicKeyPath?: string;
+}
+
+export class JwksConfig {
+  // the JWKS of another issuer, e.g. https://auth.example.com/.well-known/jwks.json
+  @IsOptional()
+  @IsString()
+  url?: string;
+
+  // a JWKS file
+  @IsOptional()
+  @IsString()
+  file?: string;
+
+  // seconds the keys are cached, the unknown kids refresh them earlier
+  @IsInt()
+  @Min(1)
+  cacheTtl = 600;
+}
+
+@ConfigFile('jwt')
+export class JwtConfig {
+  // verifies the signature and the claims of the tokens of the requests
+  @IsBoolean()
+  verify = true;
+
+  @IsString({ each: true })
+  algorithms: string[] = ['RS256'];
+
+  // set on the issued tokens and required on the verified ones
+  @IsOptional()
+  @IsString()
+  issuer?: string;
+
+  @IsOptional()
+  @IsString({ each: true })
+  audience?: string[];
+
+  // seconds of clock skew accepted for exp and nbf
+  @IsInt()
+  @Min(0)
+  clockTolerance = 30;
+
+  // the keys of this application, application.privateKey/publicKey when empty.
+  // To rotate, add the new key, sign with it, and remove the old one once its tokens expired
+  @ValidateNested({ each: true })
+  @Type(() => JwtKeyConfig)
+  keys: JwtKeyConfig[] = [];
+
+  // the kid of the key signing the tokens, the first key with a private key by default
+  @IsOptional()
+  @IsString()
+  signingKid?: string;
+
+  // the keys of other issuers, accepted besides the own keys
+  @ValidateNested()
+  @Type(() => JwksConfig)
+  jwks: JwksConfig = new JwksConfig();
+
+  // seconds the access tokens of TokenService live
+  @IsInt()
+  @Min(1)
+  accessTokenTtl = 900;
+
+  // seconds the refresh tokens of TokenService live, each refresh issues a new one
+  @IsInt()
+  @Min(1)
+  refreshTokenTtl = 30 * 24 * 60 * 60;
+
+  // rejects the revoked tokens in the default currentUserChecker, needs redis
+  @IsBoolean()
+  checkRevocation = true;
+}
+
+@ConfigFile('casbin')
+export class CasbinConfig {
+  // the model .conf file, the built-in CASBIN_MODEL by default
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  // the name of the entity of the casbin_rule table, registered with the other entities
+  @IsString()
+  @IsNotEmpty()
+  entity = 'CasbinRule';
+}
+
+export class ServiceCallerConfig {
+  // the appName of the calling service
+  @IsString()
+  @IsNotEmpty()
+  app!: string;
+
+  // sha256 hex of the API keys of the caller (X-Api-Key), several ones to rotate them
+  @IsString({ each: true })
+  apiKeyHashes: string[] = [];
+
+  // the HMAC secret of the signed requests of the caller, e.g. secret://env/ORDER_SERVICE_SECRET
+  @IsOptional()
+  @IsString()
+  secret?: string;
+}
+
+export class ServiceSigningConfig {
+  // the HMAC secret of the requests this application signs, given to the called services as its caller secret
+  @IsOptional()
+  @IsString()
+  secret?: string;
+
+  @IsIn(['sha256', 'sha512'])
+  algorithm: 'sha256' | 'sha512' = 'sha256';
+}
+
+@ConfigFile('serviceAuth')
+export class ServiceAuthConfig {
+  // the services allowed to call the @ServiceOnly() routes
+  @ValidateNested({ each: true })
+  @Type(() => ServiceCallerConfig)
+  callers: ServiceCallerConfig[] = [];
+
+  // seconds the timestamp of a signed request may differ from the clock, the nonces are kept twice that long
+  @IsInt()
+  @Min(1)
+  maxSkew = 300;
+
+  @ValidateNested()
+  @Type(() => ServiceSigningConfig)
+  signing: ServiceSigningConfig = new ServiceSigningConfig();
 }
@@ -6,9 +6,10 @@ export class BizError extends Error {
   errorMessage: TMessage;
   code = 500;
 
-  constructor(tMessage: TMessage | string, data = {}) {
+  constructor(tMessage: TMessage | string, data = {}, code = 500) {
     super(typeof tMessage === 'string' ? tMessage : tMessage[0]);
     this.data = data;
+    this.code = code;
     this.errorMessage = typeof tMessage !== 'string' ? tMessage : [tMessage];
   }
 }
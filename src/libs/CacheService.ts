@@ -1,8 +1,10 @@
 import Redis from 'ioredis';
 import _ from 'lodash';
 import Container, { Service } from 'typedi';
+import { ConfigManager } from './ConfigManager';
 import { Logger } from './Logger';
 import { RedisClient } from './RedisClient';
+import { abortable } from './RequestTimeout';
 import { fmkTimer } from './Timer';
 import { ClassType } from './types';
 
@@ -102,7 +104,7 @@ export class CacheService {
       const key = JSON.stringify(parma);
       let value = levelOneCache[key];
       if (_.isNil(value)) {
-        value = await Promise.resolve(provider(parma));
+        value = await abortable(Promise.resolve(provider(parma)));
         if (!_.isNil(value)) {
           if (ttlSeconds) {
             await this.redisClient.redis.publish(
@@ -141,7 +143,7 @@ export class CacheService {
       const key = getCacheServiceKey(JSON.stringify(parma));
       const valueStr = await this.redisClient.redis.get(key);
       if (_.isNil(valueStr)) {
-        const value = await Promise.resolve(provider(parma));
+        const value = await abortable(Promise.resolve(provider(parma)));
         if (!_.isNil(value)) {
           await this.redisClient.redis.set(key, JSON.stringify(value));
           if (ttlSeconds) {
@@ -249,6 +251,14 @@ function replaceObj(target: any, targetPath: ReplaceObjectPath, cache: any[], ca
 
 export type TTLSecondFn = (get: <T>(claz: ClassType<T>) => T) => number | Promise<number>;
 
+/**
+ * The ttl read from a config value on each call, e.g. `ttlSeconds: configTtl('cache', 'users')`, so it follows the config reloads.
+ */
+export const configTtl =
+  (configFile: string, path: string): TTLSecondFn =>
+  () =>
+    _.get(ConfigManager.getConfig(configFile), path);
+
 export type CacheOption = {
   key?: any;
   ttlSeconds?: number | TTLSecondFn;
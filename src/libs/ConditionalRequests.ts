@@ -0,0 +1,106 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createHash } from 'crypto';
+import { Middleware } from 'koa';
+import _ from 'lodash';
+import { UseBefore } from 'routing-controllers';
+import { Stream } from 'stream';
+import { ApplicationConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { ConfigManager } from './ConfigManager';
+import { RequestContext } from './RequestContext';
+
+export type CacheControlOption = {
+  // seconds
+  maxAge?: number;
+  private?: boolean;
+  // seconds a stale response can be used while it is revalidated in the background
+  staleWhileRevalidate?: number;
+  noCache?: boolean;
+  noStore?: boolean;
+  mustRevalidate?: boolean;
+};
+
+const hash = (value: any) => createHash('sha1').update(JSON.stringify(value)).digest('base64url');
+
+const unquote = (etag: string) => etag.trim().replace(/^W\//, '').replace(/^"|"$/g, '');
+
+// the entity an ETag is issued for, a write is conditional only when it targets that entity
+const entityScope = (entity: string, id: unknown) => createHash('sha1').update(`${entity}:${id}`).digest('base64url').substring(0, 12);
+
+/**
+ * Remembers the version of the entity read by the request, a GET which reads exactly one entity carries it in its ETag,
+ * so that the ETag can be sent back with If-Match to update or remove the entity.
+ */
+export const recordEntityVersion = (entity: string, id: unknown, version: string, lastModified?: Date) => {
+  const store = RequestContext.current();
+  if (store) {
+    const count = (store.entityVersion?.count ?? 0) + 1;
+    store.entityVersion = { scope: entityScope(entity, id), version, lastModified, count };
+  }
+};
+
+/**
+ * The versions of the entity in If-Match of the request, undefined when no ETag there was issued for the entity.
+ * The ETags are `"<entity scope>.<version>.<hash of the body>"`, the ones of other entities do not apply to its writes.
+ */
+export const ifMatchVersions = (entity: string, id: unknown): string[] | undefined => {
+  const ifMatch = RequestContext.current()?.ifMatch;
+  if (!ifMatch) {
+    return undefined;
+  }
+  const scope = entityScope(entity, id);
+  const versions = ifMatch
+    .split(',')
+    .map((etag) => unquote(etag).split('.'))
+    .filter((parts) => parts.length === 3 && parts[0] === scope)
+    .map((parts) => parts[1]);
+  return versions.length > 0 ? versions : undefined;
+};
+
+export const preconditionFailed = () => new BizError('error:preconditionFailed', {}, 412);
+
+/**
+ * ETag/Last-Modified of the JSON responses of GET, 304 for If-None-Match and If-Modified-Since,
+ * and keeps If-Match for UniversalService.update()/remove().
+ */
+export const conditionalRequests = (): Middleware => async (ctx, next) => {
+  const store = RequestContext.current();
+  if (store && ctx.get('If-Match')) {
+    store.ifMatch = ctx.get('If-Match');
+  }
+  await next();
+  const cfg = ConfigManager.getConfig<ApplicationConfig>('application').http.etag;
+  const { body } = ctx;
+  if (!cfg.enabled || !['GET', 'HEAD'].includes(ctx.method) || ctx.status !== 200 || _.isNil(body) || body instanceof Stream || Buffer.isBuffer(body) || !ctx.response.is('json')) {
+    return;
+  }
+  if (!ctx.response.get('ETag')) {
+    const version = store?.entityVersion?.count === 1 ? store.entityVersion : undefined;
+    // the hash of the body too, the response may carry more than the entity
+    const etag = version ? `"${version.scope}.${version.version}.${hash(body)}"` : `"${hash(body)}"`;
+    ctx.set('ETag', cfg.weak ? `W/${etag}` : etag);
+    if (version?.lastModified) {
+      ctx.lastModified = version.lastModified;
+    }
+  }
+  if (ctx.fresh) {
+    ctx.status = 304;
+  }
+};
+
+export const cacheControlValue = (option: CacheControlOption) => _.compact([option.noStore && 'no-store', option.noCache && 'no-cache', option.private ? 'private' : 'public', !_.isNil(option.maxAge) && `max-age=${option.maxAge}`, !_.isNil(option.staleWhileRevalidate) && `stale-while-revalidate=${option.staleWhileRevalidate}`, option.mustRevalidate && 'must-revalidate']).join(', ');
+
+/**
+ * Sets Cache-Control of the successful responses, e.g. `@CacheControl({ maxAge: 60, private: true })`.
+ */
+export function CacheControl(option: CacheControlOption) {
+  const value = cacheControlValue(option);
+  return (target: any, propertyKey: string) => {
+    UseBefore(async (ctx: any, next: () => Promise<any>) => {
+      await next();
+      if (ctx.status < 400) {
+        ctx.set('Cache-Control', value);
+      }
+    })(target, propertyKey);
+  };
+}
@@ -1,11 +1,95 @@
-import { loadConfig } from '../utils/YamlUtil';
+import { plainToInstance, Transform } from 'class-transformer';
+import { registerDecorator, validateSync, ValidationError, ValidatorOptions } from 'class-validator';
+import EventEmitter from 'eventemitter3';
+import fs from 'fs';
+import _ from 'lodash';
+import { REDACTED } from '../utils/SecretUtil';
+import { CONFIG_DIR, ConfigLayer, ConfigLayerValue, ConfigSources, explainConfig, LoadedConfig, loadConfigWithSources, rescanConfigFiles } from '../utils/YamlUtil';
+import { ClassType } from './types';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type ConfigMap = { [key: string]: any };
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ConfigChangeEvent<T = any> = {
+  file: string;
+  current: T;
+  previous: T;
+};
+
+export class ConfigValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: Record<string, string[]>,
+  ) {
+    super(message);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+// ['shutdown.gracePeriod: gracePeriod must not be less than 0', ...]
+const describeErrors = (errors: ValidationError[], parent = ''): string[] =>
+  errors.flatMap((error) => {
+    const path = parent ? `${parent}.${error.property}` : error.property;
+    return [...Object.values(error.constraints ?? {}).map((msg) => `${path}: ${msg}`), ...describeErrors(error.children ?? [], path)];
+  });
+
+// the keys not declared by the config classes are reported, most likely misspelled ones
+const VALIDATOR_OPTIONS: ValidatorOptions = { whitelist: true, forbidNonWhitelisted: true, forbidUnknownValues: false };
+
+const validationError = (problems: Record<string, string[]>) => {
+  const report = Object.entries(problems)
+    .map(([file, errors]) => [`  ${file}.yml`, ...errors.map((error) => `    - ${error}`)].join('\n'))
+    .join('\n');
+  return new ConfigValidationError(`Invalid configuration:\n${report}`, problems);
+};
+
+/**
+ * Registers the class which describes the config file, it is validated by ConfigManager.validate() on bootstrap.
+ */
+export const ConfigFile =
+  (configFile: string): ClassDecorator =>
+  (target) => {
+    ConfigManager.register(configFile, target as unknown as ClassType);
+  };
+
+/**
+ * Validates every value of a map against the class, e.g. the named connections of database.yml.
+ */
+export const ValidateNestedRecord =
+  (type: () => ClassType): PropertyDecorator =>
+  (target, propertyKey) => {
+    const problemsOf = (value: unknown) => (_.isPlainObject(value) ? _.flatMap(value as ConfigMap, (item, key) => (item instanceof type() ? describeErrors(validateSync(item, VALIDATOR_OPTIONS), key) : [`${key} must be an object`])) : ['must be an object']);
+    Transform(({ value }) => (_.isPlainObject(value) ? _.mapValues(value, (item) => (_.isPlainObject(item) ? plainToInstance(type(), item, { exposeDefaultValues: true }) : item)) : value))(target, propertyKey as string);
+    registerDecorator({
+      name: 'validateNestedRecord',
+      target: target.constructor,
+      propertyName: propertyKey as string,
+      validator: {
+        validate: (value) => problemsOf(value).length === 0,
+        defaultMessage: (args) => problemsOf(args?.value).join(', '),
+      },
+    });
+  };
+
 export class ConfigManager {
   private _config: ConfigMap = {};
 
+  private _sources: Record<string, ConfigSources> = {};
+
+  private _layers: Record<string, ConfigLayer[]> = {};
+
+  private _secrets: Record<string, string[]> = {};
+
+  private static types: Record<string, ClassType> = {};
+
+  // the files validated on bootstrap, they are validated again when reloaded
+  private static validated = new Set<string>();
+
+  private static events = new EventEmitter();
+
+  private static watcher?: fs.FSWatcher;
+
   static readonly nodeEnv = process.env.NODE_ENV;
 
   private static instance = new ConfigManager();
@@ -31,7 +115,11 @@ export class ConfigManager {
   load(...files: string[]): void {
     files.forEach((f) => {
       if (!this._config[f]) {
-        this._config[f] = loadConfig(f);
+        const { config, sources, layers, secrets } = loadConfigWithSources(f);
+        this._config[f] = config;
+        this._sources[f] = sources;
+        this._layers[f] = layers;
+        this._secrets[f] = secrets;
       }
     });
   }
@@ -41,6 +129,11 @@ export class ConfigManager {
     return cfg as T;
   }
 
+  sources(file: string): ConfigSources {
+    this.load(file);
+    return this._sources[file];
+  }
+
   static getInstance(): ConfigManager {
     return ConfigManager.instance;
   }
@@ -51,6 +144,150 @@ export class ConfigManager {
     return cfgmgr.createConfig<T>(configFile);
   }
 
+  /**
+   * Where the value of the dotted path came from: a cfg file, a ${ENV_VAR} inside it, or a BASENODE_* env var.
+   */
+  static getSource(configFile: string, path: string): string | undefined {
+    return ConfigManager.getInstance().sources(configFile)[path];
+  }
+
+  static getSources(configFile: string): ConfigSources {
+    return { ...ConfigManager.getInstance().sources(configFile) };
+  }
+
+  /**
+   * Every layer (base < env < zone < local < environment variables) which sets the dotted path, the last one wins.
+   */
+  static explain(configFile: string, path: string): ConfigLayerValue[] {
+    const cfgmgr = ConfigManager.getInstance();
+    cfgmgr.load(configFile);
+    return explainConfig(cfgmgr._layers[configFile], path);
+  }
+
+  /**
+   * The config of the file with the secret values redacted, safe to be logged or returned by an api.
+   */
+  static dump(configFile: string): ConfigMap {
+    const cfgmgr = ConfigManager.getInstance();
+    cfgmgr.load(configFile);
+    const dumped = _.cloneDeep(cfgmgr._config[configFile]);
+    cfgmgr._secrets[configFile].forEach((path) => _.set(dumped, path, REDACTED));
+    return dumped;
+  }
+
+  static register(configFile: string, type: ClassType) {
+    ConfigManager.types[configFile] = type;
+  }
+
+  static registered(): Record<string, ClassType> {
+    return { ...ConfigManager.types };
+  }
+
+  /**
+   * Validates the config files against their registered classes and applies the defaults of the classes.
+   * Throws one ConfigValidationError listing every invalid key of all the files.
+   */
+  static validate(...configFiles: string[]) {
+    const cfgmgr = ConfigManager.getInstance();
+    const problems: Record<string, string[]> = {};
+    const validated: ConfigMap = {};
+    (configFiles.length > 0 ? configFiles : Object.keys(ConfigManager.types)).forEach((file) => {
+      if (!ConfigManager.types[file]) {
+        return;
+      }
+      cfgmgr.load(file);
+      const { instance, errors } = ConfigManager.toInstance(file, cfgmgr.config[file]);
+      if (errors.length > 0) {
+        problems[file] = errors;
+      } else {
+        validated[file] = instance;
+      }
+    });
+    if (Object.keys(problems).length > 0) {
+      throw validationError(problems);
+    }
+    Object.assign(cfgmgr._config, validated);
+    Object.keys(validated).forEach((file) => ConfigManager.validated.add(file));
+  }
+
+  private static toInstance(file: string, config: ConfigMap | undefined) {
+    const instance = plainToInstance(ConfigManager.types[file], config ?? {}, { exposeDefaultValues: true });
+    return { instance, errors: describeErrors(validateSync(instance, VALIDATOR_OPTIONS)) };
+  }
+
+  /**
+   * Listens to the changes of the config file, returns the function to stop listening.
+   */
+  static onChange<T>(configFile: string, listener: (event: ConfigChangeEvent<T>) => void): () => void {
+    ConfigManager.events.on(configFile, listener);
+    return () => {
+      ConfigManager.events.off(configFile, listener);
+    };
+  }
+
+  /**
+   * Re-reads the loaded config files and emits the change events of the changed ones.
+   * The files which fail the validation keep their current values, they are reported through the returned error.
+   */
+  static reload(): ConfigValidationError | undefined {
+    const cfgmgr = ConfigManager.getInstance();
+    const problems: Record<string, string[]> = {};
+    const changes: ConfigChangeEvent[] = [];
+    rescanConfigFiles();
+    Object.keys(cfgmgr._config).forEach((file) => {
+      let loaded: LoadedConfig;
+      try {
+        loaded = loadConfigWithSources(file);
+      } catch (e) {
+        problems[file] = [(e as Error).message];
+        return;
+      }
+      const { config, sources, layers, secrets } = loaded;
+      let current: ConfigMap = config;
+      if (ConfigManager.validated.has(file)) {
+        const { instance, errors } = ConfigManager.toInstance(file, config);
+        if (errors.length > 0) {
+          problems[file] = errors;
+          return;
+        }
+        current = instance;
+      }
+      const previous = cfgmgr._config[file];
+      cfgmgr._sources[file] = sources;
+      cfgmgr._layers[file] = layers;
+      cfgmgr._secrets[file] = secrets;
+      if (!_.isEqual(previous, current)) {
+        cfgmgr._config[file] = current;
+        changes.push({ file, current, previous });
+      }
+    });
+    changes.forEach((change) => ConfigManager.events.emit(change.file, change));
+    return Object.keys(problems).length > 0 ? validationError(problems) : undefined;
+  }
+
+  /**
+   * Reloads the config files when anything in the cfg directory changes. A mounted k8s ConfigMap is updated by
+   * swapping its ..data symlink, which is a change of the directory as well.
+   */
+  static watch(onError: (error: ConfigValidationError) => void = () => {}, debounceMs = 500) {
+    if (ConfigManager.watcher) {
+      return;
+    }
+    const reload = _.debounce(() => {
+      const error = ConfigManager.reload();
+      if (error) {
+        onError(error);
+      }
+    }, debounceMs);
+    ConfigManager.watcher = fs.watch(CONFIG_DIR, () => reload());
+    ConfigManager.watcher.unref();
+  }
+
+  static unwatch() {
+    ConfigManager.watcher?.close();
+    ConfigManager.watcher = undefined;
+  }
+
   static getPkgVersion() {
     const appDir = process.cwd();
     // eslint-disable-next-line @typescript-eslint/no-var-requires
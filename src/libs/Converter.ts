@@ -1,4 +1,5 @@
 import { ApplicationConfig, ConfigManager } from '.';
+import { ApiVersion, defaultApiVersion, servesVersion } from './ApiVersions';
 import { HttpMethodsRegistry, MenuRegistry, UIRegistry } from './ResRegTypes';
 
 export type ApiData = Array<{
@@ -9,6 +10,8 @@ export type ApiData = Array<{
   mod: string;
   version: string;
   apiName?: string;
+  // the roles of @RequireRole()/@Authorized(), one of them is needed
+  roles?: string[];
 }>;
 
 export type UIData = Array<{
@@ -48,22 +51,31 @@ export const pathReplacer = (path: string) => {
 };
 
 export class Converter {
-  static api(reg: HttpMethodsRegistry) {
+  /**
+   * The apis served by the version, ApplicationConfig.version by default.
+   */
+  static api(reg: HttpMethodsRegistry, version: ApiVersion = defaultApiVersion()) {
     const cfg = ConfigManager.getConfig<ApplicationConfig>('application');
     const apis: ApiData = [];
     Object.keys(reg).forEach((rootPath) => {
       Object.keys(reg[rootPath]).forEach((path) => {
         reg[rootPath][path].forEach((api) => {
-          if (api['functionName'] !== 'internal') {
+          if (!servesVersion(api.versions, version)) {
+            return;
+          }
+          // an entry per functionName, the permissions of @RequirePermission() replace the one of the route
+          const functionNames = api.access?.permissions ?? (api['functionName'] !== 'internal' ? [api['functionName']] : []);
+          functionNames.forEach((functionName) => {
             apis.push({
               app: `${toApp(api['app'])}`,
-              functionName: `${cfg.appName}.${api['functionName']}`,
+              functionName: `${cfg.appName}.${functionName}`,
               uri: `/${cfg.appName}${rootPath}${path}`,
               method: `${api['method']}`,
               mod: `${cfg.appName}`,
-              version: `${cfg.version}`,
+              version: `${version}`,
+              roles: api.access?.roles,
             });
-          }
+          });
         });
       });
     });
@@ -73,7 +85,7 @@ export class Converter {
       uri: `/${cfg.appName}/`,
       method: 'GET',
       mod: `${cfg.appName}`,
-      version: `${cfg.version}`,
+      version: `${version}`,
     });
     apis.unshift({
       app: '*',
@@ -81,7 +93,7 @@ export class Converter {
       uri: `/${cfg.appName}/api/openapi`,
       method: 'GET',
       mod: `${cfg.appName}`,
-      version: `${cfg.version}`,
+      version: `${version}`,
     });
     apis.unshift({
       app: '*',
@@ -89,7 +101,7 @@ export class Converter {
       uri: `/${cfg.appName}/api/web/CommonApiParam.yaml`,
       method: 'GET',
       mod: `${cfg.appName}`,
-      version: `${cfg.version}`,
+      version: `${version}`,
     });
     apis.unshift({
       app: '*',
@@ -97,7 +109,7 @@ export class Converter {
       uri: `/${cfg.appName}/api/web/API.yaml`,
       method: 'GET',
       mod: `${cfg.appName}`,
-      version: `${cfg.version}`,
+      version: `${version}`,
     });
     apis.unshift({
       app: '*',
@@ -105,27 +117,29 @@ export class Converter {
       uri: `/${cfg.appName}/api/web/API.json`,
       method: 'GET',
       mod: `${cfg.appName}`,
-      version: `${cfg.version}`,
+      version: `${version}`,
     });
     return apis;
   }
 
-  static apiAll(reg: HttpMethodsRegistry) {
+  static apiAll(reg: HttpMethodsRegistry, version: ApiVersion = defaultApiVersion()) {
     const cfg = ConfigManager.getConfig<ApplicationConfig>('application');
     const apis: ApiData = [];
     Object.keys(reg).forEach((rootPath) => {
       Object.keys(reg[rootPath]).forEach((path) => {
-        reg[rootPath][path].forEach((api) => {
-          apis.push({
-            app: `${toApp(api['app'])}`,
-            functionName: `${cfg.appName}.${api['functionName']}`,
-            uri: `/${cfg.appName}${rootPath}${path}`,
-            method: `${api['method']}`,
-            mod: `${cfg.appName}`,
-            version: `${cfg.version}`,
-            apiName: `${api['_apiName']}`,
+        reg[rootPath][path]
+          .filter((api) => servesVersion(api.versions, version))
+          .forEach((api) => {
+            apis.push({
+              app: `${toApp(api['app'])}`,
+              functionName: `${cfg.appName}.${api['functionName']}`,
+              uri: `/${cfg.appName}${rootPath}${path}`,
+              method: `${api['method']}`,
+              mod: `${cfg.appName}`,
+              version: `${version}`,
+              apiName: `${api['_apiName']}`,
+            });
           });
-        });
       });
     });
     apis.unshift({
@@ -134,7 +148,7 @@ export class Converter {
       uri: `/${cfg.appName}/`,
       method: 'GET',
       mod: `${cfg.appName}`,
-      version: `${cfg.version}`,
+      version: `${version}`,
       apiName: `${cfg.appName}.api.doc`,
     });
     return apis;
@@ -2,6 +2,15 @@ export type CurrentUserToken = {
   uid: string;
   jwtid: string;
   app: string;
+  // checked by the casbin policies
+  roles?: string[];
+  // checked by the default authorizationChecker, e.g. example.system.role
+  permissions?: string[];
+  // the session of the tokens of TokenService
+  sid?: string;
+  typ?: 'access' | 'refresh';
   iat?: number;
+  // the milliseconds of iat, set by TokenService
+  iatMs?: number;
   exp?: number;
 };
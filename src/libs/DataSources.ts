@@ -0,0 +1,46 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import 'reflect-metadata';
+import { getConnectionManager, getMetadataArgsStorage } from 'typeorm';
+import { InjectRepository as InjectTypeormRepository } from 'typeorm-typedi-extensions';
+import { ClassType } from './types';
+
+export const DEFAULT_DATA_SOURCE = 'default';
+
+const entityDataSources = new Map<Function, string>();
+
+/**
+ * Assigns the entity to a named connection declared under `connections` in database.yml.
+ */
+export function UseDataSource(name: string): ClassDecorator {
+  return (target) => {
+    entityDataSources.set(target, name);
+  };
+}
+
+export const dataSourceOf = (entity: Function) => entityDataSources.get(entity) ?? DEFAULT_DATA_SOURCE;
+
+export const getDataSource = (entityOrName: Function | string = DEFAULT_DATA_SOURCE) => getConnectionManager().get(typeof entityOrName === 'string' ? entityOrName : dataSourceOf(entityOrName));
+
+export const getDataSources = () => getConnectionManager().connections;
+
+const injectTypeormRepository: (...args: any[]) => (object: object, propertyName: string | undefined, index?: number) => void = InjectTypeormRepository as any;
+
+const entityOfRepository = (repositoryType: Function) => {
+  const entity = getMetadataArgsStorage().entityRepositories.find((repo) => repo.target === repositoryType)?.entity;
+  return typeof entity === 'function' ? entity : undefined;
+};
+
+/**
+ * Same as the one of typeorm-typedi-extensions, but the connection is resolved from the entity when it is not given.
+ */
+export function InjectRepository(entityTypeOrConnectionName?: ClassType | string, connectionName?: string) {
+  return (object: object, propertyName: string | undefined, index?: number): void => {
+    if (typeof entityTypeOrConnectionName === 'string' || connectionName) {
+      return injectTypeormRepository(entityTypeOrConnectionName, connectionName ?? DEFAULT_DATA_SOURCE)(object, propertyName, index);
+    }
+    const repositoryType = index !== undefined ? Reflect.getOwnMetadata('design:paramtypes', object, propertyName!)?.[index] : Reflect.getOwnMetadata('design:type', object, propertyName!);
+    const entity = entityTypeOrConnectionName ?? (repositoryType ? entityOfRepository(repositoryType) : undefined);
+    const name = entity ? dataSourceOf(entity) : DEFAULT_DATA_SOURCE;
+    return injectTypeormRepository(entityTypeOrConnectionName, name)(object, propertyName, index);
+  };
+}
@@ -0,0 +1,77 @@
+import { cpus } from 'os';
+import { DataSourceOptions } from 'typeorm';
+import { URL } from 'url';
+import { DatabaseType, DataSourceConfig } from './ApplicationConfig';
+
+const SCHEMES: Record<string, DatabaseType> = {
+  mysql: 'mysql',
+  mariadb: 'mariadb',
+  postgres: 'postgres',
+  postgresql: 'postgres',
+  sqlite: 'sqlite',
+  'better-sqlite3': 'better-sqlite3',
+};
+
+const HEALTH_QUERIES: Record<string, string> = {
+  mysql: 'select "true"',
+  mariadb: 'select "true"',
+};
+
+export const databaseUrl = (cfg: DataSourceConfig) => cfg.url ?? cfg.mariaDBUrl ?? '';
+
+export const isSqlite = (type: string) => type === 'sqlite' || type === 'better-sqlite3';
+
+/**
+ * The `type` field wins, otherwise the dialect is taken from the url scheme. The legacy `mariaDBUrl` is always mariadb.
+ */
+export const resolveDialect = (cfg: DataSourceConfig): DatabaseType => {
+  if (cfg.type) {
+    return cfg.type;
+  }
+  if (!cfg.url && cfg.mariaDBUrl) {
+    return 'mariadb';
+  }
+  const url = databaseUrl(cfg);
+  const scheme = url.substring(0, url.indexOf(':'));
+  const type = SCHEMES[scheme];
+  if (!type) {
+    throw new Error(`Unsupported database url scheme: "${scheme}"`);
+  }
+  return type;
+};
+
+// sqlite:./data/app.sqlite, sqlite://./data/app.sqlite, sqlite::memory:
+const sqliteDatabase = (url: string) => url.replace(/^[\w-]+:(\/\/)?/, '') || ':memory:';
+
+export const dialectOptions = (cfg: DataSourceConfig): DataSourceOptions => {
+  const type = resolveDialect(cfg);
+  const url = databaseUrl(cfg);
+  const poolSize = cfg.poolSize ?? cpus().length * 2 + 1;
+  if (isSqlite(type)) {
+    return { type, database: sqliteDatabase(url) } as DataSourceOptions;
+  }
+  if (type === 'postgres') {
+    return { type, url, extra: { max: poolSize } };
+  }
+  return {
+    type,
+    url,
+    charset: cfg.charset ?? 'utf8mb4',
+    // timezone: '+0000',
+    extra: {
+      waitForConnections: true,
+      connectionLimit: poolSize,
+    },
+  };
+};
+
+export const healthQuery = (type: string) => HEALTH_QUERIES[type] ?? `select 'true'`;
+
+export const describeDatabase = (cfg: DataSourceConfig) => {
+  const type = resolveDialect(cfg);
+  if (isSqlite(type)) {
+    return `${type}:${sqliteDatabase(databaseUrl(cfg))}`;
+  }
+  const dbUrl = new URL(databaseUrl(cfg));
+  return `${type}://${dbUrl.hostname}:${dbUrl.port}${dbUrl.pathname}`;
+};
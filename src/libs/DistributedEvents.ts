@@ -1,11 +1,18 @@
 import amqp from 'amqplib';
+import { IsNotEmpty, IsString } from 'class-validator';
 import EventEmitter from 'eventemitter3';
 import { Service } from 'typedi';
+import { ConfigFile } from './ConfigManager';
 import { Logger } from './Logger';
+import { RequestContext } from './RequestContext';
 
-export type RabbitMQConfig = {
+@ConfigFile('rabbitmq')
+export class RabbitMQConfig {
+  // amqp url
+  @IsString()
+  @IsNotEmpty()
   connection: string;
-};
+}
 
 const EVENTS_EXCHANGE = 'BizEvents';
 const DEAD_LETTER_EXCHANGE = 'BizEventDeadLetter';
@@ -20,6 +27,11 @@ export class DistributedEvents extends EventEmitter {
 
   private queueName: string;
 
+  private consumerTag?: string;
+
+  // messages which are handled but not acked yet
+  private pending = new Set<Promise<void>>();
+
   static async open(config: RabbitMQConfig, queueName: string) {
     const conn = await amqp.connect(config.connection);
     const channel = await conn.createChannel();
@@ -44,27 +56,55 @@ export class DistributedEvents extends EventEmitter {
 
   async sub(events: string[]) {
     await Promise.all(events.map((event) => this.channel.bindQueue(this.queueName, EVENTS_EXCHANGE, event)));
-    this.channel.consume(this.queueName, (msg) => {
+    const { consumerTag } = await this.channel.consume(this.queueName, (msg) => {
       if (msg) {
-        const eventName = msg.properties.headers?.['x-eventName']; // ✅ 添加可选链
-        if (!eventName) {
-          // ✅ 添加检查
-          this.logger.warn('Message missing x-eventName header');
-          this.channel.reject(msg, false);
-          return;
-        }
-        const content = msg.content.toString();
-        const data = JSON.parse(content);
-        try {
-          this.logger.debug(`Received event: ${eventName}, Content: ${content}`);
-          this.emit('RemoteEvent', eventName, data);
-          this.channel.ack(msg);
-        } catch (error) {
-          this.logger.debug(`Message rejected: ${eventName} with error: ${error}`);
-          this.channel.reject(msg, !msg.fields.redelivered);
-        }
+        const handling = this.handle(msg)
+          .catch((e) => this.logger.error(e, `Failed to settle the message ${msg.fields.deliveryTag}`))
+          .finally(() => this.pending.delete(handling));
+        this.pending.add(handling);
       }
     });
+    this.consumerTag = consumerTag;
+  }
+
+  private async handle(msg: amqp.ConsumeMessage) {
+    const eventName = msg.properties.headers?.['x-eventName']; // ✅ 添加可选链
+    if (!eventName) {
+      // ✅ 添加检查
+      this.logger.warn('Message missing x-eventName header');
+      this.channel.reject(msg, false);
+      return;
+    }
+    const content = msg.content.toString();
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      // a malformed body fails the same way on every delivery, it goes to the dead letters
+      this.logger.warn(`Malformed message of ${eventName}: ${error}`);
+      this.channel.nack(msg, false, false);
+      return;
+    }
+    try {
+      this.logger.debug(`Received event: ${eventName}, Content: ${content}`);
+      // ack only after every handler settled, so that stopping the consumer can wait for them
+      await Promise.all(this.listeners('RemoteEvent').map((listener) => listener(eventName, data, msg.properties.headers ?? {})));
+      this.channel.ack(msg);
+    } catch (error) {
+      this.logger.debug(`Message rejected: ${eventName} with error: ${error}`);
+      this.channel.reject(msg, !msg.fields.redelivered);
+    }
+  }
+
+  /**
+   * Stops receiving new messages and waits until the unacked ones are settled.
+   */
+  async stopConsuming() {
+    if (this.consumerTag) {
+      await this.channel.cancel(this.consumerTag);
+      this.consumerTag = undefined;
+    }
+    await Promise.all(Array.from(this.pending));
   }
 
   async pub<T = any>(event: string, data: T) {
@@ -74,6 +114,7 @@ export class DistributedEvents extends EventEmitter {
       deliveryMode: 2,
       headers: {
         'x-eventName': event,
+        ...RequestContext.outboundHeaders(),
       },
     }); //persistent
   }
@@ -2,6 +2,7 @@
 import { Container } from 'typedi';
 import { DistributedEvents } from './DistributedEvents';
 import { Logger } from './Logger';
+import { REQUEST_ID_HEADER, RequestContext } from './RequestContext';
 import { ClassType } from './types';
 
 export function onEvent(event: string) {
@@ -35,17 +36,21 @@ export class EventsManager {
   }
 
   static async start(de: DistributedEvents, listeners: ClassType[] = []) {
-    de.on('RemoteEvent', (event, data) => {
+    de.on('RemoteEvent', (event, data, headers: Record<string, any> = {}) => {
       const regs = EventsManager.registry[event];
       if (regs) {
-        return Promise.all(
-          regs.map((reg) => {
-            const claz = listeners.find((lis) => lis === reg.clazz);
-            if (claz) {
-              const instance = Container.get(claz);
-              return instance[reg.method](data);
-            }
-          }),
+        // the handlers continue the request which published the event
+        const requestId = RequestContext.acceptRequestId(headers[REQUEST_ID_HEADER]);
+        return RequestContext.run({ requestId }, () =>
+          Promise.all(
+            regs.map((reg) => {
+              const claz = listeners.find((lis) => lis === reg.clazz);
+              if (claz) {
+                const instance = Container.get(claz);
+                return instance[reg.method](data);
+              }
+            }),
+          ),
         ).catch((e) => {
           console.log(e);
         });
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import { Context } from 'koa';
+import path from 'path';
+import parseRange from 'range-parser';
+import { Readable } from 'stream';
+import { BizError } from './BizError';
+
+export type ByteRange = {
+  start: number;
+  // inclusive
+  end: number;
+};
+
+export type DownloadSource = {
+  size: number;
+  // streams the whole file, or the bytes of the range
+  open(range?: ByteRange): Readable | Promise<Readable>;
+  fileName?: string;
+  // taken from the extension of fileName when absent
+  contentType?: string;
+  lastModified?: Date;
+  etag?: string;
+};
+
+export type SendFileOption = {
+  // attachment makes the browsers save the file, inline shows it
+  disposition?: 'attachment' | 'inline';
+  // overrides the name of the source
+  fileName?: string;
+};
+
+/**
+ * A file of the local filesystem to send with sendFile(), 404 when it does not exist.
+ */
+export const localFile = async (filePath: string, fileName = path.basename(filePath)): Promise<DownloadSource> => {
+  const stat = await fs.promises.stat(filePath).catch(() => undefined);
+  if (!stat?.isFile()) {
+    throw new BizError('error:fileNotFound', {}, 404);
+  }
+  return {
+    size: stat.size,
+    fileName,
+    lastModified: stat.mtime,
+    etag: `W/"${stat.size.toString(16)}-${stat.mtime.getTime().toString(16)}"`,
+    open: (range) => fs.createReadStream(filePath, range),
+  };
+};
+
+// If-Range keeps the range only when the file has not changed since the client got the first part
+const isRangeValid = (ctx: Context, file: DownloadSource) => {
+  const ifRange = ctx.get('If-Range');
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.includes('"')) {
+    return ifRange === file.etag;
+  }
+  return !!file.lastModified && Math.floor(file.lastModified.getTime() / 1000) <= Math.floor(Date.parse(ifRange) / 1000);
+};
+
+/**
+ * Streams the file as the response, with Range (a single range, 206/416), conditional GET (304) and Content-Disposition.
+ * The stream is piped to the socket, so a slow client slows down the reading instead of buffering the file.
+ * Return its result from the controller method: `return sendFile(ctx, localFile(filePath))`.
+ */
+export const sendFile = async (ctx: Context, source: DownloadSource | Promise<DownloadSource>, option: SendFileOption = {}) => {
+  const file = await source;
+  const fileName = option.fileName ?? file.fileName;
+  if (fileName) {
+    ctx.attachment(fileName, { type: option.disposition ?? 'attachment' });
+  }
+  ctx.type = file.contentType ?? (ctx.type || 'application/octet-stream');
+  ctx.set('Accept-Ranges', 'bytes');
+  if (file.lastModified) {
+    ctx.lastModified = file.lastModified;
+  }
+  if (file.etag) {
+    ctx.etag = file.etag;
+  }
+  ctx.status = 200;
+  if (ctx.fresh) {
+    ctx.status = 304;
+    return ctx;
+  }
+
+  let range: ByteRange | undefined;
+  const rangeHeader = ctx.get('Range');
+  if (rangeHeader && isRangeValid(ctx, file)) {
+    const ranges = parseRange(file.size, rangeHeader, { combine: true });
+    if (ranges === -1) {
+      ctx.set('Content-Range', `bytes */${file.size}`);
+      throw new BizError('error:rangeNotSatisfiable', {}, 416);
+    }
+    // the malformed and the multiple ranges get the whole file
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+  if (range) {
+    ctx.status = 206;
+    ctx.set('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+    ctx.length = range.end - range.start + 1;
+    // the compressed bytes would not match the range
+    ctx.compress = false;
+  } else {
+    ctx.length = file.size;
+  }
+  if (ctx.method !== 'HEAD') {
+    ctx.body = await file.open(range);
+  }
+  return ctx;
+};
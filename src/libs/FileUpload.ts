@@ -0,0 +1,200 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import multer from '@koa/multer';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import { IncomingMessage } from 'http';
+import { Context, Next } from 'koa';
+import _ from 'lodash';
+import path from 'path';
+import * as rc from 'routing-controllers';
+import stream, { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Container } from 'typedi';
+import { ApplicationConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { ConfigManager } from './ConfigManager';
+import { DownloadSource, localFile } from './FileDownload';
+
+// Container.set(UPLOAD_STORAGE, storage) replaces the local storage of all uploads
+export const UPLOAD_STORAGE = 'UploadStorage';
+
+export type UploadMeta = {
+  fieldname: string;
+  // the name on the client, never used as a path
+  originalname: string;
+  encoding: string;
+  // declared by the client
+  mimetype: string;
+};
+
+export type StoredFile = UploadMeta & {
+  // how the storage finds the file again
+  key: string;
+  size: number;
+  [key: string]: any;
+};
+
+export interface UploadStorage {
+  // consumes the stream, rejects (and keeps nothing) when the stream fails
+  save(file: UploadMeta, stream: Readable): Promise<{ key: string; [key: string]: any }>;
+  remove(key: string): Promise<void>;
+  // the stored file, for sendFile()
+  source(key: string): Promise<DownloadSource>;
+}
+
+export type UploadOption = {
+  required?: boolean;
+  // the defaults come from http.upload of application.yml
+  maxFileSize?: number;
+  maxFiles?: number;
+  allowedTypes?: string[];
+  storage?: UploadStorage;
+};
+
+const uploadConfig = () => ConfigManager.getConfig<ApplicationConfig>('application').http.upload;
+
+// only the extension of the client's file name is kept
+export const extnameOf = (fileName: string) => {
+  const ext = path.extname(fileName).toLowerCase();
+  return /^\.[a-z0-9]{1,16}$/.test(ext) ? ext : '';
+};
+
+export const isAllowedType = (file: UploadMeta, allowedTypes: string[]) =>
+  allowedTypes.length === 0 ||
+  allowedTypes.some((type) => {
+    if (type.startsWith('.')) {
+      return extnameOf(file.originalname) === type.toLowerCase();
+    }
+    return type.endsWith('/*') ? file.mimetype.startsWith(type.slice(0, -1)) : file.mimetype === type;
+  });
+
+/**
+ * Keeps the uploads in http.upload.dir, under random names.
+ */
+export class LocalUploadStorage implements UploadStorage {
+  constructor(private readonly baseDir?: string) {}
+
+  get dir() {
+    return this.baseDir ?? uploadConfig().dir;
+  }
+
+  async save(file: UploadMeta, stream: Readable) {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const key = `${randomUUID()}${extnameOf(file.originalname)}`;
+    const filePath = this.pathOf(key);
+    try {
+      await pipeline(stream, fs.createWriteStream(filePath));
+    } catch (e) {
+      await fs.promises.rm(filePath, { force: true });
+      throw e;
+    }
+    return { key, path: filePath };
+  }
+
+  async remove(key: string) {
+    await fs.promises.rm(this.pathOf(key), { force: true });
+  }
+
+  async source(key: string) {
+    return localFile(this.pathOf(key));
+  }
+
+  // the keys come back from the clients, they must not leave the dir
+  private pathOf(key: string) {
+    if (path.basename(key) !== key || key.startsWith('.')) {
+      throw new BizError('error:fileNotFound', {}, 404);
+    }
+    return path.join(this.dir, key);
+  }
+}
+
+let defaultStorage: LocalUploadStorage | undefined;
+
+export const uploadStorage = (): UploadStorage => {
+  if (Container.has(UPLOAD_STORAGE)) {
+    return Container.get<UploadStorage>(UPLOAD_STORAGE);
+  }
+  defaultStorage = defaultStorage ?? new LocalUploadStorage();
+  return defaultStorage;
+};
+
+/**
+ * The multer storage engine which checks the type and the size of each file while streaming it to the upload storage.
+ */
+class UploadStorageEngine implements multer.StorageEngine {
+  constructor(private option: UploadOption) {}
+
+  private get storage() {
+    return this.option.storage ?? uploadStorage();
+  }
+
+  _handleFile(_req: IncomingMessage, file: any, callback: (error?: any, info?: any) => void) {
+    this.save(file).then((info) => callback(null, info), callback);
+  }
+
+  _removeFile(_req: IncomingMessage, file: any, callback: (error: Error) => void) {
+    this.storage.remove(file.key).then(() => callback(null as any), callback);
+  }
+
+  private async save(file: UploadMeta & { stream: Readable }) {
+    const cfg = uploadConfig();
+    const allowedTypes = this.option.allowedTypes ?? cfg.allowedTypes;
+    if (!isAllowedType(file, allowedTypes)) {
+      file.stream.resume();
+      throw new BizError('error:unsupportedFileType', { allowedTypes }, 415);
+    }
+    const maxFileSize = this.option.maxFileSize ?? cfg.maxFileSize;
+    let size = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, done) {
+        size += chunk.length;
+        done(size > maxFileSize ? new BizError('error:fileTooLarge', { maxFileSize }, 413) : null, chunk);
+      },
+    });
+    // the errors are kept by the counter until the storage reads it
+    const limited = stream.pipeline(file.stream, counter, _.noop);
+    const stored = await this.storage.save(_.pick(file, 'fieldname', 'originalname', 'encoding', 'mimetype'), limited);
+    return { ...stored, size };
+  }
+}
+
+const multerOptions = (option: UploadOption, multiple: boolean) => ({
+  storage: new UploadStorageEngine(option),
+  limits: { files: multiple ? (option.maxFiles ?? uploadConfig().maxFiles) : 1 },
+});
+
+// the errors of multer itself, e.g. too many files or an unexpected field
+const uploadErrors = async (_ctx: Context, next: Next) => {
+  try {
+    await next();
+  } catch (e: any) {
+    if (e?.name === 'MulterError') {
+      throw new BizError(`error:upload.${_.camelCase(e.code)}`, { field: e.field }, 400);
+    }
+    // multer attaches the errors of removing the stored files, they are not for the client
+    delete e?.storageErrors;
+    throw e;
+  }
+};
+
+/**
+ * The file of a multipart/form-data field, stored before the controller method runs, e.g.
+ * `@UploadedFile('avatar', { allowedTypes: ['image/*'], maxFileSize: 1024 * 1024 }) avatar: StoredFile`.
+ * Too large files get 413, the files of other types 415.
+ */
+export function UploadedFile(name: string, option: UploadOption = {}) {
+  return (object: any, methodName: string, index: number) => {
+    rc.UploadedFile(name, { required: option.required, options: multerOptions(option, false) })(object, methodName, index);
+    rc.UseBefore(uploadErrors)(object, methodName);
+  };
+}
+
+/**
+ * The files of a multipart/form-data field, as StoredFile[].
+ */
+export function UploadedFiles(name: string, option: UploadOption = {}) {
+  return (object: any, methodName: string, index: number) => {
+    rc.UploadedFiles(name, { required: option.required, options: multerOptions(option, true) })(object, methodName, index);
+    rc.UseBefore(uploadErrors)(object, methodName);
+  };
+}
@@ -0,0 +1,112 @@
+import http from 'http';
+import { Microframework } from 'microframework';
+import SocketIO from 'socket.io';
+import { Container } from 'typedi';
+import { ApplicationConfig } from './ApplicationConfig';
+import { ConfigManager } from './ConfigManager';
+import { DistributedEvents } from './DistributedEvents';
+import { Leader } from './Leader';
+import { Logger } from './Logger';
+import { fmkTimer } from './Timer';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class GracefulShutdown {
+  private static shuttingDown = false;
+
+  private static inFlight = 0;
+
+  private static servers: http.Server[] = [];
+
+  private static drained: Array<() => void> = [];
+
+  private static closers: Array<() => unknown> = [];
+
+  static get isShuttingDown() {
+    return GracefulShutdown.shuttingDown;
+  }
+
+  /**
+   * Counts the in-flight requests of the server, so that they can be drained on shutdown.
+   */
+  static track(server: http.Server) {
+    GracefulShutdown.servers.push(server);
+    server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+      GracefulShutdown.inFlight++;
+      res.once('close', () => {
+        GracefulShutdown.inFlight--;
+        if (GracefulShutdown.inFlight === 0) {
+          GracefulShutdown.drained.splice(0).forEach((done) => done());
+        }
+      });
+    });
+  }
+
+  /**
+   * Closes a resource once the requests and the events are drained, e.g. `GracefulShutdown.onShutdown(() => subscriber.disconnect())`.
+   */
+  static onShutdown(close: () => unknown) {
+    GracefulShutdown.closers.push(close);
+  }
+
+  /**
+   * Shuts the application down gracefully when any of the signals is received.
+   */
+  static trap(mfmk: Microframework, signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT']) {
+    signals.forEach((signal) => {
+      process.once(signal, () => GracefulShutdown.shutdown(mfmk, signal));
+    });
+  }
+
+  static async shutdown(mfmk: Microframework, reason = 'shutdown') {
+    if (GracefulShutdown.shuttingDown) {
+      return;
+    }
+    GracefulShutdown.shuttingDown = true;
+    const logger = Logger.getLogger('GracefulShutdown');
+    const { readinessDelay, gracePeriod } = ConfigManager.getConfig<ApplicationConfig>('application').shutdown;
+    logger.info(`🛑${reason} received, shutting down in at most ${gracePeriod}ms ...`);
+    setTimeout(() => {
+      logger.error(`Graceful shutdown did not finish in ${gracePeriod}ms, exit now.`);
+      process.exit(1);
+    }, gracePeriod).unref();
+
+    try {
+      // /_healthcheck is not-ready from now on, keep serving until the load balancer notices it.
+      await sleep(readinessDelay);
+      await GracefulShutdown.drain();
+      logger.info('HTTP requests drained.');
+      if (Container.has(DistributedEvents)) {
+        await Container.get(DistributedEvents).stopConsuming();
+        logger.info('Distributed events drained.');
+      }
+      await Promise.all(Array.from(Leader.instances).map((leader) => leader.stop()));
+      await Promise.all(GracefulShutdown.closers.map((close) => close()));
+      fmkTimer.stop();
+      await mfmk.shutdown();
+      logger.info('👋Bye.');
+      process.exit(0);
+    } catch (e) {
+      logger.error(e);
+      process.exit(1);
+    }
+  }
+
+  private static async drain() {
+    if (Container.has('SocketIO')) {
+      Container.get<SocketIO.Server>('SocketIO').disconnectSockets(true);
+    }
+    const closing = GracefulShutdown.servers.map(
+      (server) =>
+        new Promise<void>((resolve) => {
+          server.close(() => resolve());
+          server.closeIdleConnections?.();
+        }),
+    );
+    if (GracefulShutdown.inFlight > 0) {
+      await new Promise<void>((resolve) => GracefulShutdown.drained.push(resolve));
+    }
+    GracefulShutdown.servers.forEach((server) => server.closeIdleConnections?.());
+    await Promise.all(closing);
+  }
+}
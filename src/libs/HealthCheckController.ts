@@ -2,10 +2,13 @@ import internalIp from 'internal-ip';
 import os from 'os';
 import { Get, JsonController, QueryParam } from 'routing-controllers';
 import { Inject, Service } from 'typedi';
-import { getConnectionManager } from 'typeorm';
-import { Logger, RedisClient } from '.';
+import { BizError, getDataSource, getDataSources, GracefulShutdown, healthQuery, Logger, MigrationRunner, RedisClient } from '.';
+import { Public } from './AccessPolicies';
+import { Versions } from './ApiVersions';
 
 @JsonController()
+@Versions('*')
+@Public()
 @Service()
 export class HealthCheckController {
   private logger = Logger.getLogger(HealthCheckController);
@@ -15,13 +18,16 @@ export class HealthCheckController {
 
   @Get('/_healthcheck')
   async healthCheck(@QueryParam('os') showOs: string) {
-    const conn = getConnectionManager().get();
-    const dbAlive = await conn.query('select "true"');
+    if (GracefulShutdown.isShuttingDown) {
+      throw new BizError('server.shuttingDown', {}, 503);
+    }
+    const dbAlive = await Promise.all(getDataSources().map((conn) => conn.query(healthQuery(conn.options.type)))).then((results) => results.every((result) => !!result));
     // this.logger.info(`Checking is DB alive? ${dbAlive[0]['true']}`);
     const redisAlive = await this.redisClient.redis.ping('true');
     // this.logger.info(`Checking is redis alive? ${redisAlive}`);
 
     const healthy = dbAlive && redisAlive;
+    const migrations = getDataSource().migrations.length > 0 ? await MigrationRunner.cachedStatus() : undefined;
 
     if (showOs) {
       const osInfo = {
@@ -37,10 +43,11 @@ export class HealthCheckController {
         cpus: `${os.cpus()[0].model} x ${os.cpus().length}`,
         networks: await internalIp.v4(),
       };
-      return { healthy, osInfo };
+      return { healthy, migrations, osInfo };
     }
     return {
       healthy,
+      migrations,
     };
   }
 }
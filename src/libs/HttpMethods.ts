@@ -1,5 +1,8 @@
+import _ from 'lodash';
 import * as rc from 'routing-controllers';
 import { Service } from 'typedi';
+import { accessPolicyOf } from './AccessPolicies';
+import { apiPrefix, ApiVersions, requestApiVersion, servesVersion, setControllerVersions, versionsOf } from './ApiVersions';
 import { ApplicationConfig } from './ApplicationConfig';
 import { ConfigManager } from './ConfigManager';
 import { HttpMethodsRegistry } from './ResRegTypes';
@@ -9,6 +12,13 @@ export const httpMethodsRegistry: HttpMethodsRegistry = {};
 const tempRegistry: HttpMethodsRegistry = {
   [DEFAULT_KEY]: {},
 };
+// the methods of the entries in tempRegistry, their versions are known once the controller is decorated
+let tempMethods: Array<[HttpMethodsRegistry[string][string][number], string]> = [];
+
+export type JsonControllerOption = {
+  // the API versions served by the controller, ApplicationConfig.version by default
+  versions?: ApiVersions;
+};
 
 const HttpMethod = (mName: string, method: (route: any) => any, route: string, app?: string | string[], functionName?: string) => {
   const decorator: MethodDecorator = (target, propertyKey, descriptor) => {
@@ -18,7 +28,9 @@ const HttpMethod = (mName: string, method: (route: any) => any, route: string, a
     if (!tempRegistry[DEFAULT_KEY][route]) {
       tempRegistry[DEFAULT_KEY][route] = [];
     }
-    tempRegistry[DEFAULT_KEY][route].push({ app, functionName: functionName ?? 'internal', method: mName, _apiName: apiName });
+    const entry = { app, functionName: functionName ?? 'internal', method: mName, _apiName: apiName };
+    tempRegistry[DEFAULT_KEY][route].push(entry);
+    tempMethods.push([entry, propertyKey.toString()]);
 
     method(route)(target, propertyKey, descriptor);
   };
@@ -45,10 +57,24 @@ export const All = (route: string, app?: string | string[], functionName?: strin
   return HttpMethod('ALL', rc.All, route, app, functionName);
 };
 
-export const JsonController = (baseRoute?: string) => {
+export const JsonController = (baseRoute?: string, option: JsonControllerOption = {}) => {
   const decorator: ClassDecorator = (target) => {
+    if (option.versions) {
+      setControllerVersions(target, option.versions);
+    }
+    // resolved when read, @Versions and the access policies of the class may run after this decorator
+    tempMethods.forEach(([entry, method]) => {
+      Object.defineProperty(entry, 'versions', { enumerable: true, get: () => versionsOf(target, method) });
+      Object.defineProperty(entry, 'access', { enumerable: true, get: () => accessPolicyOf(target, method) });
+    });
+    tempMethods = [];
     if (Object.keys(tempRegistry[DEFAULT_KEY]).length > 0) {
-      httpMethodsRegistry[baseRoute ?? ''] = Object.assign({}, httpMethodsRegistry[baseRoute ?? ''], tempRegistry[DEFAULT_KEY]);
+      // the controllers of different versions can share the base route
+      const registry = Object.assign({}, httpMethodsRegistry[baseRoute ?? '']);
+      _.forEach(tempRegistry[DEFAULT_KEY], (apis, path) => {
+        registry[path] = [...(registry[path] ?? []), ...apis];
+      });
+      httpMethodsRegistry[baseRoute ?? ''] = registry;
     }
     tempRegistry[DEFAULT_KEY] = {};
     rc.JsonController(baseRoute)(target);
@@ -57,3 +83,19 @@ export const JsonController = (baseRoute?: string) => {
 
   return decorator;
 };
+
+/**
+ * The registered entry of the route template matched by the router, e.g. ('GET', '/api/v1/example/user/:id').
+ */
+export const registeredRoute = (method: string, route: string) => {
+  const version = requestApiVersion(route);
+  const path = version ? route.substring(apiPrefix(version).length) : route;
+  const httpMethod = method === 'HEAD' ? 'GET' : method;
+  for (const [baseRoute, paths] of Object.entries(httpMethodsRegistry)) {
+    const entry = paths[path.substring(baseRoute.length)]?.find((api) => (api.method === httpMethod || api.method === 'ALL') && (!version || servesVersion(api.versions, version)));
+    if (path.startsWith(baseRoute) && entry) {
+      return entry;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,71 @@
+import cors from '@koa/cors';
+import { Middleware } from 'koa';
+import bodyParser from 'koa-bodyparser';
+import compress from 'koa-compress';
+import helmet from 'koa-helmet';
+import { BodyConfig, CompressionConfig, CorsConfig, HttpConfig, SecurityHeadersConfig } from './ApplicationConfig';
+
+// the content types koa-bodyparser parses for each of its enableTypes
+const BODY_TYPES: Record<string, string[]> = {
+  json: ['json', 'application/*+json', 'application/csp-report'],
+  form: ['urlencoded'],
+  text: ['text'],
+  xml: ['xml'],
+};
+
+export const compression = (cfg: CompressionConfig): Middleware =>
+  compress({
+    threshold: cfg.threshold,
+    br: cfg.encodings.includes('br') ? {} : false,
+    gzip: cfg.encodings.includes('gzip') ? {} : false,
+    deflate: cfg.encodings.includes('deflate') ? {} : false,
+  });
+
+export const securityHeaders = (cfg: SecurityHeadersConfig): Middleware => helmet(cfg.options);
+
+export const corsPolicy = (cfg: CorsConfig): Middleware =>
+  cors({
+    // the disallowed origins get no CORS headers at all
+    origin: cfg.origins.includes('*') ? '*' : (ctx) => (cfg.origins.includes(ctx.get('Origin')) ? ctx.get('Origin') : ''),
+    allowMethods: cfg.methods,
+    credentials: cfg.credentials,
+    allowHeaders: cfg.allowHeaders,
+    exposeHeaders: cfg.exposeHeaders,
+    maxAge: cfg.maxAge,
+  });
+
+/**
+ * Parses the request body with the size limits, before routing-controllers' own body parser which then skips it.
+ * Too large bodies are rejected with 413, the bodies of unsupported content types with 415.
+ */
+export const bodyLimits = (cfg: BodyConfig): Middleware[] => {
+  const accepted = [...cfg.enableTypes.flatMap((type) => BODY_TYPES[type]), 'multipart'];
+  const parser = bodyParser({
+    enableTypes: cfg.enableTypes,
+    jsonLimit: cfg.jsonLimit,
+    formLimit: cfg.formLimit,
+    textLimit: cfg.textLimit,
+  });
+  const contentType: Middleware = async (ctx, next) => {
+    // false when there is a body of none of the types, null when there is no body
+    if (ctx.request.is(accepted) === false) {
+      ctx.throw(415, `Unsupported content type: ${ctx.request.type || 'none'}`);
+    }
+    await next();
+  };
+  return cfg.strictContentType ? [contentType, parser] : [parser];
+};
+
+export const httpMiddlewares = (cfg: HttpConfig): Middleware[] => {
+  const middlewares: Middleware[] = [];
+  if (cfg.securityHeaders.enabled) {
+    middlewares.push(securityHeaders(cfg.securityHeaders));
+  }
+  if (cfg.cors.enabled) {
+    middlewares.push(corsPolicy(cfg.cors));
+  }
+  if (cfg.compression.enabled) {
+    middlewares.push(compression(cfg.compression));
+  }
+  return middlewares;
+};
@@ -0,0 +1,165 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createHash } from 'crypto';
+import { Context, Middleware, Next } from 'koa';
+import { Action, ForbiddenError, UnauthorizedError, UseBefore } from 'routing-controllers';
+import { Stream } from 'stream';
+import { Container, Service } from 'typedi';
+import { routeAccessPolicy } from './AccessControl';
+import { ApplicationConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { ConfigManager } from './ConfigManager';
+import { KoaHolder } from './KoaLoader';
+import { Logger } from './Logger';
+import { RateLimiter } from './RateLimiter';
+import { RedisClient } from './RedisClient';
+import { serviceOnly } from './ServiceAuth';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+export type IdempotentOption = {
+  // seconds the response is kept for the retries
+  ttl?: number;
+  // seconds a request may hold the key, the duplicates wait for it that long
+  lockTimeout?: number;
+  // 400 when the request has no Idempotency-Key
+  required?: boolean;
+};
+
+type IdempotencyRecord = {
+  fingerprint: string;
+  done: boolean;
+  status?: number;
+  body?: any;
+  type?: string;
+};
+
+const DEFAULT_TTL = 24 * 60 * 60;
+const DEFAULT_LOCK_TIMEOUT = 30;
+const POLL_INTERVAL = 100;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+@Service()
+export class Idempotency {
+  private logger = Logger.getLogger(Idempotency);
+
+  private get redis() {
+    return Container.get(RedisClient).redis;
+  }
+
+  // the same key with another method, path, query or body is a misuse of the key
+  private fingerprintOf(ctx: Context) {
+    return createHash('sha256')
+      .update(`${ctx.method} ${ctx.path}?${ctx.querystring}\n${JSON.stringify(ctx.request.body ?? null)}`)
+      .digest('hex');
+  }
+
+  // routing-controllers checks the authorization after the UseBefore middlewares, so the caller is checked here before a response is replayed
+  private async authorize(ctx: Context) {
+    const action: Action = { request: ctx.request, response: ctx.response, context: ctx };
+    const policy = routeAccessPolicy(action);
+    if (!policy || policy.public) {
+      return;
+    }
+    if (policy.services && !ctx.state.callerApp) {
+      await serviceOnly({ apps: policy.services.length > 0 ? policy.services : undefined })(ctx, async () => {});
+    }
+    const roles = policy.roles ?? [];
+    if (policy.authenticated && KoaHolder.authorizationChecker && !(await KoaHolder.authorizationChecker(action, roles))) {
+      throw roles.length === 0 ? new UnauthorizedError(`Authorization is required for request on ${ctx.method} ${ctx.url}`) : new ForbiddenError(`Access is denied for request on ${ctx.method} ${ctx.url}`);
+    }
+  }
+
+  /**
+   * Runs the request once per Idempotency-Key, the retries get the stored response.
+   * The keys are scoped by the caller, so that users can not replay each other's responses.
+   */
+  async handle(ctx: Context, next: Next, name: string, option: IdempotentOption = {}) {
+    const idempotencyKey = ctx.get(IDEMPOTENCY_KEY_HEADER);
+    if (ctx.state.idempotent || !idempotencyKey) {
+      if (option.required && !idempotencyKey) {
+        throw new BizError('error:idempotencyKeyRequired', {}, 400);
+      }
+      return next();
+    }
+    ctx.state.idempotent = true;
+    const caller = await Container.get(RateLimiter).resolveKey(ctx, 'user');
+    const { appName } = ConfigManager.getConfig<ApplicationConfig>('application');
+    const recordKey = `Idempotency:${appName}:${name}:${caller}:${idempotencyKey}`;
+    const fingerprint = this.fingerprintOf(ctx);
+    const lockTimeout = (option.lockTimeout ?? DEFAULT_LOCK_TIMEOUT) * 1000;
+    const deadline = Date.now() + lockTimeout;
+
+    while (Date.now() < deadline) {
+      const processing: IdempotencyRecord = { fingerprint, done: false };
+      const locked = await this.redis.set(recordKey, JSON.stringify(processing), 'PX', lockTimeout, 'NX');
+      if (locked) {
+        return this.process(ctx, next, recordKey, fingerprint, option.ttl ?? DEFAULT_TTL);
+      }
+      const existing = await this.redis.get(recordKey);
+      if (existing) {
+        const record: IdempotencyRecord = JSON.parse(existing);
+        if (record.fingerprint !== fingerprint) {
+          throw new BizError('error:idempotencyKeyReused', {}, 422);
+        }
+        if (record.done) {
+          await this.authorize(ctx);
+          ctx.status = record.status!;
+          if (record.type) {
+            ctx.type = record.type;
+          }
+          ctx.body = record.body;
+          ctx.set(IDEMPOTENT_REPLAYED_HEADER, 'true');
+          return;
+        }
+        // a duplicate is being processed, wait for its response
+        await sleep(POLL_INTERVAL);
+      }
+    }
+    throw new BizError('error:idempotencyKeyInProgress', {}, 409);
+  }
+
+  private async process(ctx: Context, next: Next, recordKey: string, fingerprint: string, ttl: number) {
+    try {
+      await next();
+    } catch (e) {
+      // the failed requests can be retried with the same key
+      await this.redis.del(recordKey);
+      throw e;
+    }
+    const { body } = ctx;
+    if (ctx.status >= 500 || body instanceof Stream || Buffer.isBuffer(body)) {
+      await this.redis.del(recordKey);
+      return;
+    }
+    const record: IdempotencyRecord = { fingerprint, done: true, status: ctx.status, body, type: ctx.response.get('Content-Type') || undefined };
+    await this.redis.set(recordKey, JSON.stringify(record), 'EX', ttl).catch((e) => this.logger.error(e, 'Failed to store the idempotent response.'));
+  }
+}
+
+export const idempotent =
+  (name: string, option?: IdempotentOption): Middleware =>
+  (ctx, next) =>
+    Container.get(Idempotency).handle(ctx, next, name, option);
+
+/**
+ * http.idempotency of application.yml, applies to every route of the configured methods.
+ * Used by the routes rather than the koa app, the replays are authorized against the policy of the matched route.
+ */
+export const globalIdempotency = (): Middleware => (ctx, next) => {
+  const cfg = ConfigManager.getConfig<ApplicationConfig>('application').http.idempotency;
+  if (cfg.enabled && cfg.methods.includes(ctx.method)) {
+    return Container.get(Idempotency).handle(ctx, next, 'global', cfg);
+  }
+  return next();
+};
+
+/**
+ * Replays the stored response to the requests repeating the Idempotency-Key header, e.g. the retries of a POST after a timeout.
+ */
+export function Idempotent(option?: IdempotentOption) {
+  return (target: any, propertyKey: string) => {
+    UseBefore(idempotent(`${target.constructor.name}.${propertyKey}`, option))(target, propertyKey);
+  };
+}
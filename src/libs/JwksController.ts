@@ -0,0 +1,19 @@
+import { Get, JsonController } from 'routing-controllers';
+import { Service } from 'typedi';
+import { jwtKeys } from '../utils/jwtKeys';
+import { Public } from './AccessPolicies';
+import { Versions } from './ApiVersions';
+
+/**
+ * The public keys verifying the tokens of this application, for the other services and the api gateway.
+ */
+@JsonController()
+@Versions('*')
+@Public()
+@Service()
+export class JwksController {
+  @Get('/.well-known/jwks.json')
+  async jwks() {
+    return jwtKeys.jwks();
+  }
+}
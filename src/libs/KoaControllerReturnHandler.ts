@@ -1,6 +1,6 @@
 import { ValidationError } from 'class-validator';
 import { Context } from 'koa';
-import { KoaMiddlewareInterface, Middleware, NotFoundError } from 'routing-controllers';
+import { KoaMiddlewareInterface, NotFoundError } from 'routing-controllers';
 import { Service } from 'typedi';
 import { BizError } from './BizError';
 import { Logger } from './Logger';
@@ -30,14 +30,17 @@ const transformer = (errors: ValidationError[]) => {
   return err;
 };
 
+// statuses.empty of koa, their body is null, e.g. the 304 of conditionalRequests()
+const EMPTY_STATUSES = [204, 205, 304];
+
+// Used as the outermost middleware of the koa app by koaLoader.
 @Service()
-@Middleware({ type: 'before' })
 export class KoaControllerReturnHandler implements KoaMiddlewareInterface {
   private logger = Logger.getLogger(KoaControllerReturnHandler);
   use(ctx: Context, next: (err?: any) => Promise<any>): Promise<any> {
     return next()
       .then(() => {
-        if (ctx.response.body === null) {
+        if (ctx.response.body === null && !EMPTY_STATUSES.includes(ctx.status)) {
           throw new NotFoundError();
         }
       })
@@ -54,6 +57,10 @@ export class KoaControllerReturnHandler implements KoaMiddlewareInterface {
         } else if (error.name === 'NotFoundError') {
           ctx.response.status = 404;
           ctx.response.body = error.message;
+        } else if (error.expose && error.status) {
+          // http-errors of the koa middlewares, e.g. 413 of the body parser
+          ctx.response.status = error.status;
+          ctx.response.body = error.message;
         } else {
           ctx.response.status = error.httpCode ?? 500;
           ctx.response.body = error.message;
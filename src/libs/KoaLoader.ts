@@ -1,20 +1,16 @@
 /* eslint-disable @typescript-eslint/no-var-requires */
-import cors from '@koa/cors';
 import { validationMetadatasToSchemas } from 'class-validator-jsonschema';
 import http from 'http';
 import jsonata from 'jsonata';
 import { default as Application, default as Koa } from 'koa';
 import favicon from 'koa-favicon';
 import json from 'koa-json';
-// import helmet from 'koa-helmet';
-// import compress from 'koa-compress';
-import logger from 'koa-logger';
 import _ from 'lodash';
 import { MicroframeworkSettings } from 'microframework';
 import 'reflect-metadata';
 // import { useContainer as useContainerCV, Validator } from 'class-validator';
-import { Action, getMetadataArgsStorage, RoutingControllersOptions, useContainer as useContainerRC, useKoaServer } from 'routing-controllers';
-import { routingControllersToSpec } from 'routing-controllers-openapi';
+import { Action, ActionMetadata, createExecutor, getMetadataArgsStorage, KoaDriver, RoutingControllersOptions, UseMetadata, useContainer as useContainerRC } from 'routing-controllers';
+import { expressToOpenAPIPath, getFullPath, parseRoutes, routingControllersToSpec } from 'routing-controllers-openapi';
 import { AuthorizationChecker } from 'routing-controllers/types/AuthorizationChecker';
 import { CurrentUserChecker } from 'routing-controllers/types/CurrentUserChecker';
 // ✅ 移除不存在的导入
@@ -22,10 +18,29 @@ import { SocketControllersOptions } from 'socket-controllers';
 import SocketIO from 'socket.io';
 import { Container } from 'typedi';
 import { ClassType, jwtUtil } from '..';
-import { ApplicationConfig } from './ApplicationConfig';
+import { registerRouteAccessPolicy, tokenAuthorizationChecker, unprotectedRoutes, withAccessPolicies } from './AccessControl';
+import { accessLog } from './AccessLog';
+import { accessPolicyOf, BEARER_AUTH, mergeAuthorizedRoles, securityOf, SERVICE_API_KEY, SERVICE_SIGNATURE } from './AccessPolicies';
+import { apiPrefix, defaultApiVersion, servedApiVersions, withVersionActions } from './ApiVersions';
+import { ApplicationConfig, JwtConfig, OpenApiConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { conditionalRequests } from './ConditionalRequests';
 import { ConfigManager } from './ConfigManager';
+import { CurrentUserToken } from './CurrentUserToken';
+import { GracefulShutdown } from './GracefulShutdown';
 import { HealthCheckController } from './HealthCheckController';
+import { JwksController } from './JwksController';
+import { bodyLimits, httpMiddlewares } from './HttpMiddlewares';
+import { globalIdempotency } from './Idempotency';
 import { KoaControllerReturnHandler } from './KoaControllerReturnHandler';
+import { Logger } from './Logger';
+import { globalRateLimit } from './RateLimiter';
+import { RedisClient } from './RedisClient';
+import { RequestContext } from './RequestContext';
+import { requestTimeout } from './RequestTimeout';
+import { API_KEY_HEADER, SIGNATURE_HEADER } from './ServiceAuth';
+import { LocalStorageDriver, StorageController, StorageService } from './storage';
+import { TokenService } from './TokenService';
 
 export interface KoaLoaderOption {
   restfulControllers?: ClassType[];
@@ -36,9 +51,42 @@ export interface KoaLoaderOption {
   noListening?: boolean;
 }
 
-export const KoaHolder: { koa?: Koa } = {};
+export const KoaHolder: { koa?: Koa; server?: http.Server; currentUserChecker?: CurrentUserChecker; authorizationChecker?: AuthorizationChecker } = {};
 
-// const compressOptions = { threshold: 2048 };
+// createExecutor() initializes the driver and registers its router for every version, the body parser, cors and the router are used once.
+// The access policies of the actions are kept by the path they are registered with, see routeAccessPolicy().
+class ApiVersionsKoaDriver extends KoaDriver {
+  private readonly idempotency = globalIdempotency();
+
+  private initialized = false;
+
+  private routesRegistered = false;
+
+  initialize() {
+    if (!this.initialized) {
+      this.initialized = true;
+      super.initialize();
+    }
+  }
+
+  registerRoutes() {
+    if (!this.routesRegistered) {
+      this.routesRegistered = true;
+      super.registerRoutes();
+    }
+  }
+
+  registerAction(actionMetadata: ActionMetadata, executeCallback: (options: Action) => any) {
+    // the first middleware of every route, the route is known when a stored response is replayed.
+    // The controller metadata is built by each createExecutor(), the metadata of routing-controllers is left as it is.
+    const { uses } = actionMetadata.controllerMetadata;
+    if (uses[0]?.middleware !== this.idempotency) {
+      uses.unshift(new UseMetadata({ target: actionMetadata.target, middleware: this.idempotency, afterAction: false }));
+    }
+    registerRouteAccessPolicy(actionMetadata.type, ActionMetadata.appendBaseRoute(this.routePrefix, actionMetadata.fullRoute), accessPolicyOf(actionMetadata.target, actionMetadata.method));
+    super.registerAction(actionMetadata, executeCallback);
+  }
+}
 
 export const koaLoader = (option: KoaLoaderOption) => (options?: MicroframeworkSettings) => {
   // useContainerCV(Container);
@@ -47,21 +95,26 @@ export const koaLoader = (option: KoaLoaderOption) => (options?: MicroframeworkS
   // ✅ 移除 useContainerSC，因为不存在
   const cfg = ConfigManager.getConfig<ApplicationConfig>('application');
   const webapp = new Koa();
+  webapp.proxy = cfg.http.trustProxy;
   KoaHolder.koa = webapp;
-  // webapp.use(compress(compressOptions));
-  // webapp.use(helmet());
-  webapp.use(cors());
+  webapp.use(RequestContext.middleware());
+  webapp.use(accessLog());
+  // outermost but the request id, so that the errors of all the middlewares (e.g. 413/415 of the body parser) are handled the same way
+  webapp.use((ctx, next) => Container.get(KoaControllerReturnHandler).use(ctx, next));
+  httpMiddlewares(cfg.http).forEach((mw) => webapp.use(mw));
   webapp.use(favicon('favicon.ico'));
   if (option.use) {
     option.use.forEach((mw) => webapp.use(mw));
   }
-  if (ConfigManager.isDevelopment()) {
-    webapp.use(logger());
-  }
   if (ConfigManager.isDevelopment()) {
     webapp.use(json());
   }
-  const svcPath = `/api/v${cfg.version}/${cfg.appName}`;
+  const svcPath = apiPrefix(defaultApiVersion());
+  const versions = servedApiVersions();
+  webapp.use(globalRateLimit(versions.map(apiPrefix)));
+  webapp.use(requestTimeout());
+  bodyLimits(cfg.http.body).forEach((mw) => webapp.use(mw));
+  webapp.use(conditionalRequests());
   const useKoaServerOption: RoutingControllersOptions = {
     routePrefix: svcPath,
     classTransformer: false,
@@ -83,7 +136,8 @@ export const koaLoader = (option: KoaLoaderOption) => (options?: MicroframeworkS
     },
     development: ConfigManager.isDevelopment(),
     defaultErrorHandler: false,
-    middlewares: [KoaControllerReturnHandler],
+    // KoaControllerReturnHandler is used by the koa app directly, no routing-controllers global middlewares
+    middlewares: [],
   };
   if (option.restfulControllers) {
     useKoaServerOption.controllers = option.restfulControllers;
@@ -92,24 +146,55 @@ export const koaLoader = (option: KoaLoaderOption) => (options?: MicroframeworkS
   if (_.isNil(useKoaServerOption.controllers)) {
     useKoaServerOption.controllers = [];
   }
-  useKoaServerOption.controllers.push(HealthCheckController as any);
-
-  if (option.authorizationChecker) {
-    useKoaServerOption.authorizationChecker = option.authorizationChecker;
+  useKoaServerOption.controllers.push(HealthCheckController as any, JwksController as any);
+  // the presigned urls of the local storage
+  if (Container.has(StorageService) && Container.get(StorageService).driver instanceof LocalStorageDriver) {
+    useKoaServerOption.controllers.push(StorageController as any);
   }
 
-  if (option.currentUserChecker) {
-    useKoaServerOption.currentUserChecker = option.currentUserChecker;
-  } else {
-    useKoaServerOption.currentUserChecker = async (action: Action) => {
+  useKoaServerOption.authorizationChecker = withAccessPolicies(option.authorizationChecker ?? tokenAuthorizationChecker);
+  KoaHolder.authorizationChecker = useKoaServerOption.authorizationChecker;
+  (useKoaServerOption.controllers as Function[]).forEach(mergeAuthorizedRoles);
+
+  const currentUserChecker: CurrentUserChecker =
+    option.currentUserChecker ??
+    (async (action: Action) => {
       const authorization = action.request.headers['authorization'];
-      if (authorization) {
-        return jwtUtil.decodeJwt(authorization);
+      if (!authorization) {
+        return undefined;
       }
-    };
+      const cfg = ConfigManager.getConfig<JwtConfig>('jwt');
+      // a forged or expired token is not taken as no user
+      const user: CurrentUserToken | null = cfg.verify
+        ? await jwtUtil.verifyJwt(authorization).catch((e) => {
+            throw new BizError('error:invalidToken', { reason: e.message }, 401);
+          })
+        : jwtUtil.decodeJwt(authorization);
+      if (user?.typ === 'refresh') {
+        throw new BizError('error:invalidToken', { reason: 'a refresh token is not an access token' }, 401);
+      }
+      if (user && cfg.checkRevocation && Container.has(RedisClient)) {
+        await Container.get(TokenService).check(user);
+      }
+      return user;
+    });
+  // kept for the access log and the authorization checkers
+  useKoaServerOption.currentUserChecker = async (action: Action) => {
+    const user = await currentUserChecker(action);
+    action.context.state.user = user;
+    return user;
+  };
+  KoaHolder.currentUserChecker = useKoaServerOption.currentUserChecker;
+  // the routes of each version are registered with its prefix, in one router
+  const driver = new ApiVersionsKoaDriver(webapp);
+  versions.forEach((version) => withVersionActions(version, () => createExecutor(driver, { ...useKoaServerOption, routePrefix: apiPrefix(version) })));
+  const unprotected = unprotectedRoutes(useKoaServerOption.controllers as Function[]);
+  if (unprotected.length > 0) {
+    Logger.getLogger('KoaLoader').warn({ routes: unprotected }, `${unprotected.length} routes have no access policy, declare @Public(), @RequireRole(), @RequirePermission(), @Authorized() or @ServiceOnly() on them.`);
   }
-  useKoaServer(webapp, useKoaServerOption);
   const server = http.createServer(webapp.callback());
+  KoaHolder.server = server;
+  GracefulShutdown.track(server);
 
   if (option.wsControllers) {
     const io = new SocketIO.Server(server, { path: `${svcPath}/socket.io` });
@@ -134,7 +219,6 @@ export const koaLoader = (option: KoaLoaderOption) => (options?: MicroframeworkS
         });
       }),
   );
-  const storage = getMetadataArgsStorage();
   const schemas = validationMetadatasToSchemas({
     refPointerPrefix: '#/components/schemas/',
   });
@@ -144,45 +228,23 @@ export const koaLoader = (option: KoaLoaderOption) => (options?: MicroframeworkS
   schemas['Array'] = {
     type: 'array',
   };
+  // the config classes are validated with class-validator too, they are not part of the api
+  Object.values(ConfigManager.registered()).forEach((type) => delete schemas[type.name]);
 
   // const path = require('path');
-  const apiDoccfg = ConfigManager.getConfig<{ disabled: boolean }>('openapiCfg');
+  const apiDoccfg = ConfigManager.getConfig<OpenApiConfig>('openapiCfg');
   if (!apiDoccfg.disabled) {
-    const pkgVersion = ConfigManager.getPkgVersion();
-    const spec = routingControllersToSpec(storage, useKoaServerOption, {
-      info: {
-        title: cfg.appName,
-        description: `Open API 3 doc for module ${cfg.appName}`,
-        version: `v${cfg.version} / ${pkgVersion}`,
-      },
-      servers: [
-        {
-          url: `http://localhost:${cfg.port}`,
-          description: 'Local Development',
-        },
-        {
-          url: `http://${cfg.appName}:${cfg.port}`,
-          description: 'Dev Development (Must via Dev Proxy)',
-        },
-      ],
-      components: { schemas },
-    });
-    const names = new Set();
-    // ✅ 修复 Promise 问题
-    const tags = jsonata('$sort(*.*.*.tags)').evaluate(spec);
-    if (Array.isArray(tags)) {
-      tags.forEach((tag: string) => names.add(tag));
-    }
-    const tagArray: Array<any> = [];
-    Array.from(names).forEach((name) => {
-      tagArray.push({
-        name,
-        description: `Generated from ${name} controller`,
-      });
+    const specs = new Map<string, ReturnType<typeof routingControllersToSpec>>();
+    versions.forEach((version) => {
+      const routePrefix = apiPrefix(version);
+      specs.set(
+        `${routePrefix}/api/openapi`,
+        withVersionActions(version, () => openApiSpec(version, { ...useKoaServerOption, routePrefix }, schemas)),
+      );
     });
-    spec.tags = tagArray;
     webapp.use(async (ctx, next) => {
-      if (ctx.request.url === `${useKoaServerOption.routePrefix}/api/openapi`) {
+      const spec = specs.get(ctx.request.url);
+      if (spec) {
         ctx.response.type = 'application/json; charset=utf-8';
         ctx.body = JSON.stringify(spec, null, 2);
       } else {
@@ -198,3 +260,55 @@ export const koaLoader = (option: KoaLoaderOption) => (options?: MicroframeworkS
     });
   }
 };
+
+// the OpenAPI spec of the routes left by withVersionActions()
+const openApiSpec = (version: string, useKoaServerOption: RoutingControllersOptions, schemas: ReturnType<typeof validationMetadatasToSchemas>) => {
+  const cfg = ConfigManager.getConfig<ApplicationConfig>('application');
+  const spec = routingControllersToSpec(getMetadataArgsStorage(), useKoaServerOption, {
+    info: {
+      title: cfg.appName,
+      description: `Open API 3 doc for module ${cfg.appName}`,
+      version: `v${version} / ${ConfigManager.getPkgVersion()}`,
+    },
+    servers: [
+      {
+        url: `http://localhost:${cfg.port}`,
+        description: 'Local Development',
+      },
+      {
+        url: `http://${cfg.appName}:${cfg.port}`,
+        description: 'Dev Development (Must via Dev Proxy)',
+      },
+    ],
+    components: {
+      schemas,
+      securitySchemes: {
+        [BEARER_AUTH]: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        [SERVICE_API_KEY]: { type: 'apiKey', in: 'header', name: API_KEY_HEADER },
+        [SERVICE_SIGNATURE]: { type: 'apiKey', in: 'header', name: SIGNATURE_HEADER },
+      },
+    },
+  });
+  parseRoutes(getMetadataArgsStorage(), useKoaServerOption).forEach((route) => {
+    const operation = spec.paths[expressToOpenAPIPath(getFullPath(route))]?.[route.action.type];
+    const security = securityOf(accessPolicyOf(route.action.target, route.action.method), cfg.appName);
+    if (operation && security) {
+      operation.security = security;
+    }
+  });
+  const names = new Set();
+  // ✅ 修复 Promise 问题
+  const tags = jsonata('$sort(*.*.*.tags)').evaluate(spec);
+  if (Array.isArray(tags)) {
+    tags.forEach((tag: string) => names.add(tag));
+  }
+  const tagArray: Array<any> = [];
+  Array.from(names).forEach((name) => {
+    tagArray.push({
+      name,
+      description: `Generated from ${name} controller`,
+    });
+  });
+  spec.tags = tagArray;
+  return spec;
+};
@@ -50,6 +50,8 @@ export const LeaderEvents = {
 
 @Service()
 export class Leader extends EventEmitter {
+  static readonly instances = new Set<Leader>();
+
   logger = Logger.getLogger(Leader);
 
   readonly id = id(16);
@@ -67,6 +69,7 @@ export class Leader extends EventEmitter {
   constructor(redisClient: RedisClient) {
     super();
     this.redis = redisClient.newClient();
+    Leader.instances.add(this);
 
     this.on(LeaderEvents.elected, () => {
       this.logger.info(`🚀Current service is elected as ${this.options.project}'s leader now.`);
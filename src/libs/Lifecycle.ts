@@ -0,0 +1,144 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import 'reflect-metadata';
+import { Container } from 'typedi';
+import { Logger } from './Logger';
+import { ClassType } from './types';
+
+export interface OnInit {
+  onInit(): any | Promise<any>;
+}
+
+export interface OnStart {
+  onStart(): any | Promise<any>;
+}
+
+export interface OnReady {
+  onReady(): any | Promise<any>;
+}
+
+export interface OnStop {
+  onStop(): any | Promise<any>;
+}
+
+export type LifecycleHook = 'onInit' | 'onStart' | 'onReady' | 'onStop';
+
+const HOOKS: LifecycleHook[] = ['onInit', 'onStart', 'onReady', 'onStop'];
+
+const hasHook = (type: ClassType) => HOOKS.some((hook) => typeof type.prototype[hook] === 'function');
+
+// Constructor parameters and @Inject()-ed properties of a class (including inherited ones)
+const dependenciesOf = (type: ClassType): ClassType[] => {
+  const deps: ClassType[] = [];
+  const paramTypes: any[] = Reflect.getMetadata('design:paramtypes', type) ?? [];
+  deps.push(...paramTypes);
+  Container.handlers
+    .filter((handler) => handler.propertyName && (handler.object === type.prototype || Object.prototype.isPrototypeOf.call(handler.object, type.prototype)))
+    .forEach((handler) => {
+      deps.push(Reflect.getMetadata('design:type', handler.object, handler.propertyName!));
+    });
+  return deps.filter((dep) => typeof dep === 'function' && dep !== Object);
+};
+
+// typedi has no API listing its services, the private field of typedi 0.10 is read when it is there, for the startup warning only
+const containerTypes = (): ClassType[] => {
+  const services = (Container.of() as any).services;
+  return Array.isArray(services) ? services.map((svc) => svc?.type).filter((type): type is ClassType => typeof type === 'function') : [];
+};
+
+/**
+ * Registers a typedi service implementing the lifecycle hooks, e.g. `@Lifecycle() @Service() class UserService implements OnStart`.
+ */
+export const Lifecycle = (): ClassDecorator => (target) => {
+  LifecycleManager.register(target as unknown as ClassType);
+};
+
+export class LifecycleManager {
+  private static types: ClassType[] = [];
+
+  private static instances: any[] = [];
+
+  static register(type: ClassType) {
+    if (!LifecycleManager.types.includes(type)) {
+      LifecycleManager.types.push(type);
+    }
+  }
+
+  /**
+   * The registered services which implement at least one lifecycle hook, sorted so that dependencies come first.
+   */
+  static discover(): ClassType[] {
+    const types = LifecycleManager.types;
+    const sorted: ClassType[] = [];
+    const visited = new Set<ClassType>();
+    const visit = (type: ClassType) => {
+      if (visited.has(type)) {
+        return;
+      }
+      visited.add(type);
+      dependenciesOf(type).forEach(visit);
+      if (hasHook(type) && types.includes(type)) {
+        sorted.push(type);
+      }
+    };
+    types.forEach(visit);
+    return sorted;
+  }
+
+  /**
+   * The services which implement a lifecycle hook without @Lifecycle(), among the typedi services and the dependencies of the registered ones.
+   */
+  static unregistered(): ClassType[] {
+    const types = LifecycleManager.types;
+    const found: ClassType[] = [];
+    const visited = new Set<ClassType>();
+    const visit = (type: ClassType) => {
+      if (visited.has(type)) {
+        return;
+      }
+      visited.add(type);
+      dependenciesOf(type).forEach(visit);
+      if (hasHook(type) && !types.includes(type)) {
+        found.push(type);
+      }
+    };
+    [...types, ...containerTypes()].forEach(visit);
+    return found;
+  }
+
+  static async start() {
+    const unregistered = LifecycleManager.unregistered();
+    if (unregistered.length > 0) {
+      Logger.getLogger('LifecycleManager').warn({ services: unregistered.map((type) => type.name) }, `${unregistered.length} services implement lifecycle hooks without @Lifecycle(), their hooks are not called.`);
+    }
+    LifecycleManager.instances = LifecycleManager.discover().map((type) => Container.get(type));
+    await LifecycleManager.invoke('onInit', LifecycleManager.instances);
+    await LifecycleManager.invoke('onStart', LifecycleManager.instances);
+  }
+
+  static async ready() {
+    await LifecycleManager.invoke('onReady', LifecycleManager.instances);
+  }
+
+  static async stop() {
+    const instances = [...LifecycleManager.instances].reverse();
+    LifecycleManager.instances = [];
+    await LifecycleManager.invoke('onStop', instances, true);
+  }
+
+  private static async invoke(hook: LifecycleHook, instances: any[], ignoreError = false) {
+    const logger = Logger.getLogger('LifecycleManager');
+    for (const instance of instances) {
+      if (typeof instance[hook] === 'function') {
+        logger.debug(`${instance.constructor.name}.${hook}()`);
+        try {
+          await Promise.resolve(instance[hook]());
+        } catch (e) {
+          if (!ignoreError) {
+            throw e;
+          }
+          logger.error(e, `${instance.constructor.name}.${hook}() failed`);
+        }
+      }
+    }
+  }
+}
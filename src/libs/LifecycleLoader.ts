@@ -0,0 +1,11 @@
+import { MicroframeworkSettings } from 'microframework';
+import { LifecycleManager } from './Lifecycle';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type LifecycleLoaderOption = any;
+
+// Shutdown handlers run in registration order, this loader goes first so that services are stopped before their connections are closed.
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const lifecycleLoader = (option: LifecycleLoaderOption) => (settings?: MicroframeworkSettings) => {
+  settings?.onShutdown(async () => LifecycleManager.stop());
+};
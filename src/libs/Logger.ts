@@ -1,12 +1,51 @@
+import { Type } from 'class-transformer';
+import { IsBoolean, IsIn, IsNumber, IsOptional, IsString, Max, Min, ValidateNested } from 'class-validator';
 import pino from 'pino';
-import { ConfigManager } from './ConfigManager';
+import { redactSecrets } from '../utils/SecretUtil';
+import { ConfigFile, ConfigManager } from './ConfigManager';
+import { RequestContext } from './RequestContext';
 
-export interface LoggerConfig {
-  level: pino.Level;
-  prettyPrint?: boolean; // ✅ 改为 boolean
+export class AccessLogConfig {
+  @IsBoolean()
+  enabled = true;
+
+  // the share of the requests logged, the 5xx responses are always logged
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  sampleRate = 1;
+
+  // path prefixes after the route prefix which are not logged
+  @IsString({ each: true })
+  exclude: string[] = ['/_healthcheck'];
+
+  // the request headers logged
+  @IsString({ each: true })
+  headers: string[] = ['user-agent', 'referer'];
+
+  // the query params and headers logged as [REDACTED], case insensitive
+  @IsString({ each: true })
+  redact: string[] = ['authorization', 'cookie', 'x-api-key', 'token', 'access_token', 'refresh_token', 'password', 'signature'];
+}
+
+@ConfigFile('logger')
+export class LoggerConfig {
+  @IsIn(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'])
+  level: pino.LevelWithSilent = 'info';
+
+  // true, or the pino-pretty options
+  @IsOptional()
+  prettyPrint?: boolean | Record<string, unknown>;
+
+  @ValidateNested()
+  @Type(() => AccessLogConfig)
+  accessLog: AccessLogConfig = new AccessLogConfig();
 }
 
 export class Logger {
+  // one logger per tag, so that the level can be changed live when logger.yml is reloaded
+  private static loggers = new Map<string, pino.Logger>();
+
   static getLogger<T>(owner: (new (...args: any[]) => T) | string): pino.Logger {
     let tag = 'Logger';
     if (typeof owner === 'string') {
@@ -14,12 +53,30 @@ export class Logger {
     } else {
       tag = owner.name;
     }
+    if (Logger.loggers.size === 0) {
+      ConfigManager.onChange<LoggerConfig>('logger', ({ current }) => Logger.loggers.forEach((logger) => (logger.level = current.level)));
+    }
+    const existing = Logger.loggers.get(tag);
+    if (existing) {
+      return existing;
+    }
     const loggerCfg = ConfigManager.getConfig<LoggerConfig>('logger');
 
     // ✅ 新的 Pino 配置方式
     const logger = pino({
       name: tag,
       level: loggerCfg.level,
+      // every log line inside a request or a consumed event carries its id
+      mixin: () => {
+        const requestId = RequestContext.requestId;
+        return requestId ? { requestId } : {};
+      },
+      hooks: {
+        // the resolved config secrets never reach the logs
+        logMethod(args, method) {
+          return method.apply(this, args.map((arg) => redactSecrets(arg)) as Parameters<pino.LogFn>);
+        },
+      },
       transport: loggerCfg.prettyPrint
         ? {
             target: 'pino-pretty',
@@ -32,6 +89,7 @@ export class Logger {
         : undefined,
     });
 
+    Logger.loggers.set(tag, logger);
     return logger;
   }
 }
@@ -0,0 +1,18 @@
+import { MicroframeworkSettings } from 'microframework';
+import { getDataSource } from './DataSources';
+import { MigrationRunner } from './MigrationRunner';
+
+export type MigrationLoaderOption = {
+  // glob paths or classes of the migrations of the default data source
+  migrations?: Array<string | Function>;
+  // run the pending migrations at startup, default true when there are migrations
+  migrationsRun?: boolean;
+  disableRedis?: boolean;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const migrationLoader = (option: MigrationLoaderOption) => async (settings?: MicroframeworkSettings) => {
+  if (option.migrations && option.migrations.length > 0 && option.migrationsRun !== false) {
+    await MigrationRunner.run(getDataSource(), !option.disableRedis);
+  }
+};
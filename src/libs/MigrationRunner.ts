@@ -0,0 +1,75 @@
+import { Container } from 'typedi';
+import { DataSource, MigrationExecutor } from 'typeorm';
+import { getDataSource } from './DataSources';
+import { Leader, LeaderEvents } from './Leader';
+import { Logger } from './Logger';
+import { RedisClient } from './RedisClient';
+
+export type MigrationStatus = {
+  executed: number;
+  last?: string;
+  pending: string[];
+};
+
+export class MigrationRunner {
+  private static statuses = new Map<string, { at: number; status: Promise<MigrationStatus> }>();
+
+  /**
+   * Runs the pending migrations, only one pod of the service migrates at a time when redis is available.
+   */
+  static async run(dataSource: DataSource = getDataSource(), useLock = true) {
+    const logger = Logger.getLogger('MigrationRunner');
+    if (!useLock) {
+      return MigrationRunner.migrate(dataSource);
+    }
+    const leader = new Leader(Container.get(RedisClient)).config({ project: `Migrations.${dataSource.name}`, ttl: 30000 });
+    try {
+      await new Promise<void>((resolve, reject) => {
+        leader.once(LeaderEvents.elected, () => resolve());
+        // the boot fails rather than waiting for the lock forever when redis is down
+        leader.once(LeaderEvents.error, reject);
+        logger.info(`⏳Waiting for the migration lock of ${dataSource.name} ...`);
+        leader.elect();
+      });
+      return await MigrationRunner.migrate(dataSource);
+    } finally {
+      await leader.stop();
+      Leader.instances.delete(leader);
+      leader.redis.disconnect();
+    }
+  }
+
+  /**
+   * The status of the data source read at most once in the ttl, for the health checks polling it every few seconds.
+   */
+  static cachedStatus(dataSource: DataSource = getDataSource(), ttl = 60000): Promise<MigrationStatus> {
+    const cached = MigrationRunner.statuses.get(dataSource.name);
+    if (cached && Date.now() - cached.at < ttl) {
+      return cached.status;
+    }
+    const status = MigrationRunner.status(dataSource);
+    MigrationRunner.statuses.set(dataSource.name, { at: Date.now(), status });
+    status.catch(() => MigrationRunner.statuses.delete(dataSource.name));
+    return status;
+  }
+
+  static async status(dataSource: DataSource = getDataSource()): Promise<MigrationStatus> {
+    const executor = new MigrationExecutor(dataSource);
+    const executed = await executor.getExecutedMigrations();
+    const pending = await executor.getPendingMigrations();
+    return {
+      executed: executed.length,
+      last: executed.length > 0 ? executed[executed.length - 1].name : undefined,
+      pending: pending.map((migration) => migration.name),
+    };
+  }
+
+  private static async migrate(dataSource: DataSource) {
+    const logger = Logger.getLogger('MigrationRunner');
+    const migrations = await dataSource.runMigrations({ transaction: 'each' });
+    MigrationRunner.statuses.delete(dataSource.name);
+    migrations.forEach((migration) => logger.info(`🗃Migration ${migration.name} executed.`));
+    logger.info(`🗃Database(${dataSource.name}) is up to date, ${migrations.length} migration(s) executed.`);
+    return migrations;
+  }
+}
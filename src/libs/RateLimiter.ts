@@ -0,0 +1,204 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { Context, Middleware } from 'koa';
+import { UseBefore } from 'routing-controllers';
+import { Container, Service } from 'typedi';
+import { jwtUtil } from '../utils/jwtUtil';
+import { ApplicationConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { ConfigManager } from './ConfigManager';
+import { CurrentUserToken } from './CurrentUserToken';
+import { Logger } from './Logger';
+import { RedisClient } from './RedisClient';
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export type RateLimitKey = 'ip' | 'user' | ((ctx: Context) => string | Promise<string>);
+
+export type RateLimitOption = {
+  // requests allowed in a window
+  points: number;
+  // seconds
+  window: number;
+  // 'ip' by default, 'user' falls back to 'ip' for the anonymous requests
+  key?: RateLimitKey;
+  algorithm?: RateLimitAlgorithm;
+  // the counters of the same name are shared, defaults to Controller.method for @RateLimit()
+  name?: string;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // milliseconds until the limit is fully restored
+  resetMs: number;
+  // milliseconds until the next request is allowed, 0 when allowed
+  retryAfterMs: number;
+};
+
+// Both scripts read the clock of redis, so that every pod agrees on the time.
+// returns [allowed, remaining, resetMs, retryAfterMs]
+const SLIDING_WINDOW = `
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+local points = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < points then
+  redis.call('ZADD', KEYS[1], now, now .. ':' .. ARGV[3])
+  redis.call('PEXPIRE', KEYS[1], window)
+  count = count + 1
+  allowed = 1
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local newest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+local retry = 0
+if allowed == 0 then
+  retry = tonumber(oldest[2]) + window - now
+end
+return {allowed, points - count, tonumber(newest[2]) + window - now, retry}
+`;
+
+const TOKEN_BUCKET = `
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+local points = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local rate = points / window
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or points
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(points, tokens + (now - ts) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], window)
+local retry = 0
+if allowed == 0 then
+  retry = math.ceil((1 - tokens) / rate)
+end
+return {allowed, math.floor(tokens), math.ceil((points - tokens) / rate), retry}
+`;
+
+type RateLimitCommands = Redis & {
+  rateLimitSlidingWindow(key: string, points: number, window: number, member: string): Promise<number[]>;
+  rateLimitTokenBucket(key: string, points: number, window: number): Promise<number[]>;
+};
+
+@Service()
+export class RateLimiter {
+  private logger = Logger.getLogger(RateLimiter);
+
+  private commands?: RateLimitCommands;
+
+  private get redis(): RateLimitCommands {
+    if (!this.commands) {
+      const redis = Container.get(RedisClient).redis;
+      redis.defineCommand('rateLimitSlidingWindow', { numberOfKeys: 1, lua: SLIDING_WINDOW });
+      redis.defineCommand('rateLimitTokenBucket', { numberOfKeys: 1, lua: TOKEN_BUCKET });
+      this.commands = redis as RateLimitCommands;
+    }
+    return this.commands;
+  }
+
+  /**
+   * Takes one point of the key, the result tells whether it was available.
+   */
+  async consume(name: string, key: string, option: RateLimitOption): Promise<RateLimitResult> {
+    // the services sharing the redis count apart, like the locks of Leader
+    const { appName } = ConfigManager.getConfig<ApplicationConfig>('application');
+    const redisKey = `RateLimit:${appName}:${name}:${key}`;
+    const windowMs = option.window * 1000;
+    const [allowed, remaining, resetMs, retryAfterMs] = option.algorithm === 'token-bucket' ? await this.redis.rateLimitTokenBucket(redisKey, option.points, windowMs) : await this.redis.rateLimitSlidingWindow(redisKey, option.points, windowMs, randomUUID());
+    return { allowed: allowed === 1, limit: option.points, remaining: Math.max(remaining, 0), resetMs, retryAfterMs };
+  }
+
+  async resolveKey(ctx: Context, key: RateLimitKey = 'ip'): Promise<string> {
+    if (typeof key === 'function') {
+      return key(ctx);
+    }
+    if (key === 'user') {
+      const uid = this.uidOf(ctx);
+      if (uid) {
+        return `user:${uid}`;
+      }
+    }
+    return `ip:${ctx.ip}`;
+  }
+
+  // only a verified token can pick the counter of a user
+  private uidOf(ctx: Context): string | undefined {
+    const user: CurrentUserToken | undefined = ctx.state.user;
+    if (user?.uid) {
+      return user.uid;
+    }
+    const authorization = ctx.get('Authorization');
+    if (authorization) {
+      try {
+        return jwtUtil.decodeJwt(authorization, true)?.uid;
+      } catch (e) {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Sets the RateLimit-* headers, and throws 429 with Retry-After when the limit is exceeded.
+   * The requests pass when redis is unavailable.
+   */
+  async limit(ctx: Context, name: string, option: RateLimitOption) {
+    let result: RateLimitResult;
+    try {
+      result = await this.consume(name, await this.resolveKey(ctx, option.key), option);
+    } catch (e) {
+      this.logger.warn(e, `Rate limit ${name} is not checked.`);
+      return;
+    }
+    ctx.set('RateLimit-Limit', `${result.limit}`);
+    ctx.set('RateLimit-Remaining', `${result.remaining}`);
+    ctx.set('RateLimit-Reset', `${Math.ceil(result.resetMs / 1000)}`);
+    if (!result.allowed) {
+      ctx.set('Retry-After', `${Math.ceil(result.retryAfterMs / 1000)}`);
+      throw new BizError('error:tooManyRequests', {}, 429);
+    }
+  }
+}
+
+export const rateLimit =
+  (option: RateLimitOption & { name: string }): Middleware =>
+  async (ctx, next) => {
+    await Container.get(RateLimiter).limit(ctx, option.name, option);
+    await next();
+  };
+
+/**
+ * The global limit of http.rateLimit in application.yml, read on each request so that it follows the config reloads.
+ */
+export const globalRateLimit =
+  (routePrefixes: string[]): Middleware =>
+  async (ctx, next) => {
+    const cfg = ConfigManager.getConfig<ApplicationConfig>('application').http.rateLimit;
+    const routePrefix = routePrefixes.find((prefix) => ctx.path.startsWith(prefix));
+    const path = routePrefix ? ctx.path.substring(routePrefix.length) : ctx.path;
+    if (cfg.enabled && !cfg.exclude.some((prefix) => path.startsWith(prefix))) {
+      await Container.get(RateLimiter).limit(ctx, 'global', cfg);
+    }
+    await next();
+  };
+
+/**
+ * Limits the requests of the controller method across all pods of the service, e.g. `@RateLimit({ points: 10, window: 60, key: 'user' })`.
+ */
+export function RateLimit(option: RateLimitOption) {
+  return (target: any, propertyKey: string) => {
+    UseBefore(rateLimit({ name: `${target.constructor.name}.${propertyKey}`, ...option }))(target, propertyKey);
+  };
+}
@@ -0,0 +1,84 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Middleware } from 'koa';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// the ids from the callers are trusted only when they look like ids
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export type RequestContextStore = {
+  requestId: string;
+  // If-Match of the request, checked by UniversalService.update()/remove()
+  ifMatch?: string;
+  // the entities read by UniversalService.readById(), the version of a single one tags the response
+  entityVersion?: { scope: string; version: string; lastModified?: Date; count: number };
+  // aborted when the request times out or the client goes away
+  signal?: AbortSignal;
+  // epoch milliseconds the request times out at
+  deadline?: number;
+  [key: string]: any;
+};
+
+const storage = new AsyncLocalStorage<RequestContextStore>();
+
+/**
+ * The context of the request (or the consumed event) being handled, available anywhere down the async call chain.
+ */
+export class RequestContext {
+  static run<T>(store: RequestContextStore, fn: () => T): T {
+    return storage.run(store, fn);
+  }
+
+  static current(): RequestContextStore | undefined {
+    return storage.getStore();
+  }
+
+  static get requestId(): string | undefined {
+    return storage.getStore()?.requestId;
+  }
+
+  static get signal(): AbortSignal | undefined {
+    return storage.getStore()?.signal;
+  }
+
+  /**
+   * Milliseconds left before the request times out, undefined when it has no time limit.
+   */
+  static timeLeft(): number | undefined {
+    const deadline = storage.getStore()?.deadline;
+    return deadline === undefined ? undefined : Math.max(deadline - Date.now(), 0);
+  }
+
+  static newRequestId(): string {
+    return randomUUID();
+  }
+
+  /**
+   * The request id of the caller if it is valid, otherwise a new one.
+   */
+  static acceptRequestId(requestId: any): string {
+    return typeof requestId === 'string' && VALID_REQUEST_ID.test(requestId) ? requestId : RequestContext.newRequestId();
+  }
+
+  /**
+   * The headers to send with the outbound calls, so that the callee logs with the same request id.
+   */
+  static outboundHeaders(): Record<string, string> {
+    const requestId = RequestContext.requestId;
+    return requestId ? { [REQUEST_ID_HEADER]: requestId } : {};
+  }
+
+  /**
+   * Accepts or creates the X-Request-Id of the request, and runs the rest of the middlewares in its context.
+   */
+  static middleware(): Middleware {
+    return (ctx, next) => {
+      const requestId = RequestContext.acceptRequestId(ctx.get(REQUEST_ID_HEADER));
+      ctx.set(REQUEST_ID_HEADER, requestId);
+      ctx.state.requestId = requestId;
+      return RequestContext.run({ requestId }, () => next());
+    };
+  }
+}
@@ -0,0 +1,110 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Context, Middleware, Next } from 'koa';
+import _ from 'lodash';
+import { createParamDecorator, UseBefore } from 'routing-controllers';
+import { ApplicationConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { ConfigManager } from './ConfigManager';
+import { RequestContext } from './RequestContext';
+
+// the status of nginx for the requests closed by the clients, only seen in the logs
+export const CLIENT_CLOSED_REQUEST = 499;
+
+type RequestTimer = {
+  // limits the request to ms since it started, 0 for no limit
+  limit(ms: number): void;
+};
+
+/**
+ * Rejects the promise when the signal aborts, for the APIs which take no AbortSignal, e.g. the queries of TypeORM.
+ * The work behind the promise goes on, only the caller stops waiting for it.
+ */
+export const abortable = <T>(promise: Promise<T>, signal = RequestContext.signal): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * The AbortSignal of the request, aborted when the request times out or the client goes away.
+ * Also available as RequestContext.signal, e.g. for `fetch(url, { signal: RequestContext.signal })`.
+ */
+export const requestTimeout = (): Middleware => async (ctx, next) => {
+  const cfg = ConfigManager.getConfig<ApplicationConfig>('application').http.timeout;
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const store = RequestContext.current();
+  let handle: NodeJS.Timeout | undefined;
+  let onTimeout: (error: BizError) => void = _.noop;
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    onTimeout = reject;
+  });
+  const timer: RequestTimer = {
+    limit(ms) {
+      clearTimeout(handle);
+      if (store) {
+        store.deadline = ms > 0 ? startedAt + ms : undefined;
+      }
+      if (ms > 0) {
+        handle = setTimeout(
+          () => {
+            const error = new BizError('error:requestTimeout', { timeout: ms }, cfg.status);
+            controller.abort(error);
+            onTimeout(error);
+          },
+          Math.max(startedAt + ms - Date.now(), 0),
+        );
+      }
+    },
+  };
+  // also while a stream is being sent after the middlewares are done
+  ctx.res.once('close', () => {
+    if (!ctx.res.writableFinished) {
+      controller.abort(new BizError('error:clientClosedRequest', {}, CLIENT_CLOSED_REQUEST));
+    }
+  });
+  ctx.state.signal = controller.signal;
+  ctx.state.requestTimer = timer;
+  if (store) {
+    store.signal = controller.signal;
+  }
+  timer.limit(cfg.ms);
+  try {
+    await Promise.race([next(), timedOut]);
+  } catch (e) {
+    // the AbortErrors of the aborted calls become the reason of the abort
+    throw controller.signal.aborted ? controller.signal.reason : e;
+  } finally {
+    clearTimeout(handle);
+  }
+};
+
+/**
+ * Replaces http.timeout.ms of application.yml for the route, e.g. `@Timeout(5000)` or `@Timeout(0)` for no limit.
+ * The limit counts from the start of the request, the timed out requests get http.timeout.status.
+ */
+export function Timeout(ms: number) {
+  return (target: any, propertyKey: string) => {
+    UseBefore((ctx: Context, next: Next) => {
+      (ctx.state.requestTimer as RequestTimer | undefined)?.limit(ms);
+      return next();
+    })(target, propertyKey);
+  };
+}
+
+/**
+ * The AbortSignal of the request as a parameter of the controller method, e.g. `@RequestSignal() signal: AbortSignal`.
+ */
+export function RequestSignal() {
+  return createParamDecorator({
+    value: (action) => action.context.state.signal,
+  });
+}
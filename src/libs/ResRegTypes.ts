@@ -1,3 +1,6 @@
+import { AccessPolicy } from './AccessPolicies';
+import { ApiVersions } from './ApiVersions';
+
 export type HttpMethodsRegistry = {
   [parentPath: string]: {
     [path: string]: Array<{
@@ -5,6 +8,10 @@ export type HttpMethodsRegistry = {
       functionName: string;
       method: string;
       _apiName: string;
+      // undefined for ApplicationConfig.version
+      versions?: ApiVersions;
+      // @Public(), @RequireRole(), @RequirePermission(), @Authorized() or @ServiceOnly() of the method and its controller
+      access?: AccessPolicy;
     }>;
   };
 };
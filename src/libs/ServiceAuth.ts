@@ -0,0 +1,142 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { Context, Middleware } from 'koa';
+import { createParamDecorator, UseBefore } from 'routing-controllers';
+import { Container, Service } from 'typedi';
+import { crypto, HmacAlgorithm } from '../utils/crypto';
+import { declareServices } from './AccessPolicies';
+import { ApplicationConfig, ServiceAuthConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { ConfigManager } from './ConfigManager';
+import { RedisClient } from './RedisClient';
+
+export const API_KEY_HEADER = 'X-Api-Key';
+export const CALLER_APP_HEADER = 'X-Caller-App';
+export const TIMESTAMP_HEADER = 'X-Timestamp';
+export const NONCE_HEADER = 'X-Nonce';
+// <algorithm>=<hex of the HMAC>, e.g. sha256=5d41...
+export const SIGNATURE_HEADER = 'X-Signature';
+
+const SIGNATURE_ALGORITHMS: HmacAlgorithm[] = ['sha256', 'sha512'];
+
+export type ServiceOnlyOption = {
+  // the caller apps allowed, every one of serviceAuth.callers by default
+  apps?: string[];
+};
+
+const serviceAuthConfig = () => ConfigManager.getConfig<ServiceAuthConfig>('serviceAuth');
+
+// method, path with the query, timestamp, nonce and the sha256 of the body, one per line
+const stringToSign = (method: string, url: string, timestamp: string, nonce: string, body: string | Buffer = '') => [method.toUpperCase(), url, timestamp, nonce, crypto.sha256(body)].join('\n');
+
+const safeEqual = (a: string, b: string) => {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+};
+
+const invalidCredentials = () => new BizError('error:invalidServiceCredentials', {}, 401);
+
+/**
+ * Authenticates the services calling the @ServiceOnly() routes, with their API keys or their signed requests.
+ */
+@Service()
+export class ServiceAuth {
+  /**
+   * The app of the caller, 401 when the request carries no valid API key nor signature.
+   */
+  async authenticate(ctx: Context): Promise<string> {
+    const cfg = serviceAuthConfig();
+    const apiKey = ctx.get(API_KEY_HEADER);
+    if (apiKey) {
+      const hash = crypto.sha256(apiKey);
+      const caller = cfg.callers.find((c) => c.apiKeyHashes.some((h) => safeEqual(h.toLowerCase(), hash)));
+      if (!caller) {
+        throw invalidCredentials();
+      }
+      return caller.app;
+    }
+    if (ctx.get(SIGNATURE_HEADER)) {
+      return this.verifySignature(ctx, cfg);
+    }
+    throw new BizError('error:serviceAuthRequired', {}, 401);
+  }
+
+  // the nonces are kept in redis, a signed request is accepted once
+  private async verifySignature(ctx: Context, cfg: ServiceAuthConfig) {
+    const app = ctx.get(CALLER_APP_HEADER);
+    const timestamp = ctx.get(TIMESTAMP_HEADER);
+    const nonce = ctx.get(NONCE_HEADER);
+    const [algorithm, digest] = ctx.get(SIGNATURE_HEADER).split('=');
+    const caller = cfg.callers.find((c) => c.app === app && c.secret);
+    if (!caller || !nonce || !digest || !SIGNATURE_ALGORITHMS.includes(algorithm as HmacAlgorithm)) {
+      throw invalidCredentials();
+    }
+    if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - Number(timestamp)) > cfg.maxSkew) {
+      throw new BizError('error:requestExpired', { maxSkew: cfg.maxSkew }, 401);
+    }
+    const expected = crypto.hmac(stringToSign(ctx.method, ctx.url, timestamp, nonce, ctx.request.rawBody), algorithm as HmacAlgorithm, caller.secret);
+    if (!safeEqual(expected, digest.toLowerCase())) {
+      throw invalidCredentials();
+    }
+    // only the valid signatures take a nonce, so that nobody else can use up the nonces of a caller
+    const fresh = await Container.get(RedisClient).redis.set(`ServiceAuth:nonce:${app}:${nonce}`, '1', 'EX', cfg.maxSkew * 2, 'NX');
+    if (!fresh) {
+      throw new BizError('error:replayedRequest', {}, 401);
+    }
+    return app;
+  }
+}
+
+export const serviceOnly =
+  (option: ServiceOnlyOption = {}): Middleware =>
+  async (ctx, next) => {
+    const app = await Container.get(ServiceAuth).authenticate(ctx);
+    if (option.apps && !option.apps.includes(app)) {
+      throw new BizError('error:callerNotAllowed', { app }, 403);
+    }
+    ctx.state.callerApp = app;
+    await next();
+  };
+
+/**
+ * Only the services of serviceAuth.callers may call the route, or the routes of the controller, e.g. `@ServiceOnly({ apps: ['order'] })`.
+ * The callers send their API key in X-Api-Key, or sign the request with serviceAuthHeaders().
+ */
+export function ServiceOnly(option: ServiceOnlyOption = {}) {
+  return (target: any, propertyKey?: string) => {
+    UseBefore(serviceOnly(option))(target, propertyKey);
+    declareServices(target, propertyKey, option.apps ?? []);
+  };
+}
+
+/**
+ * The app of the service calling a @ServiceOnly() route as a parameter of the controller method, e.g. `@CallerApp() app: string`.
+ */
+export function CallerApp() {
+  return createParamDecorator({
+    value: (action) => action.context.state.callerApp,
+  });
+}
+
+/**
+ * The headers signing a request to a @ServiceOnly() route of another service with serviceAuth.signing, e.g.
+ * `axios.post(url, data, { headers: { 'Content-Type': 'application/json', ...serviceAuthHeaders('POST', url, JSON.stringify(data)) } })`.
+ * The body must be sent exactly as signed, multipart bodies are not signed.
+ */
+export const serviceAuthHeaders = (method: string, url: string, body?: string | Buffer): Record<string, string> => {
+  const { signing } = serviceAuthConfig();
+  if (!signing.secret) {
+    throw new Error('serviceAuth.signing.secret is not set.');
+  }
+  const { pathname, search } = new URL(url, 'http://localhost');
+  const timestamp = `${Math.floor(Date.now() / 1000)}`;
+  const nonce = randomBytes(16).toString('hex');
+  const signature = crypto.hmac(stringToSign(method, `${pathname}${search}`, timestamp, nonce, body), signing.algorithm, signing.secret);
+  return {
+    [CALLER_APP_HEADER]: ConfigManager.getConfig<ApplicationConfig>('application').appName,
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: `${signing.algorithm}=${signature}`,
+  };
+};
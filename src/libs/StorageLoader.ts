@@ -0,0 +1,16 @@
+import { MicroframeworkSettings } from 'microframework';
+import { Container } from 'typedi';
+import { StorageConfig } from './ApplicationConfig';
+import { ConfigManager } from './ConfigManager';
+import { UPLOAD_STORAGE } from './FileUpload';
+import { Logger } from './Logger';
+import { StorageService } from './storage';
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const storageLoader = () => (settings?: MicroframeworkSettings) => {
+  const cfg = ConfigManager.getConfig<StorageConfig>('storage');
+  const storage = StorageService.create(cfg);
+  Container.set(StorageService, storage);
+  Container.set(UPLOAD_STORAGE, storage);
+  Logger.getLogger('StorageLoader').info(`🗄️Storage ${cfg.driver} ready.`);
+};
@@ -0,0 +1,178 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import Redis from 'ioredis';
+import { VerifyOptions } from 'jsonwebtoken';
+import _ from 'lodash';
+import { Container, Service } from 'typedi';
+import { jwtUtil } from '../utils/jwtUtil';
+import { JwtConfig } from './ApplicationConfig';
+import { BizError } from './BizError';
+import { ConfigManager } from './ConfigManager';
+import { CurrentUserToken } from './CurrentUserToken';
+import { id } from './IdGenerator';
+import { Logger } from './Logger';
+import { RedisClient } from './RedisClient';
+
+export type TokenPair = {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  // seconds
+  expiresIn: number;
+  refreshExpiresIn: number;
+};
+
+// uid, app, roles and any other claim of the application
+export type TokenClaims = Pick<CurrentUserToken, 'uid' | 'app' | 'roles'> & Record<string, any>;
+
+// set by TokenService and jsonwebtoken, not carried over to the refreshed tokens
+const RESERVED_CLAIMS = ['jwtid', 'sid', 'typ', 'iat', 'iatMs', 'exp', 'nbf', 'iss', 'aud', 'jti'];
+
+const revokedKey = (jwtid: string) => `TokenService:revoked:${jwtid}`;
+// the tokens of the uid issued at or before that millisecond are revoked
+const revokedBeforeKey = (uid: string) => `TokenService:revokedBefore:${uid}`;
+// the jwtid of the latest refresh token of the session, the session is revoked once it is gone
+const sessionKey = (sid: string) => `TokenService:session:${sid}`;
+
+// returns 1 when rotated, 0 when the session is gone, -1 when an exchanged refresh token came again, which revokes the session
+const ROTATE = `
+local current = redis.call('GET', KEYS[1])
+if not current then
+  return 0
+end
+if current ~= ARGV[1] then
+  redis.call('DEL', KEYS[1])
+  return -1
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1
+`;
+
+type TokenCommands = Redis & {
+  rotateRefreshToken(key: string, jwtid: string, nextJwtid: string, ttl: number): Promise<number>;
+};
+
+const jwtConfig = () => ConfigManager.getConfig<JwtConfig>('jwt');
+
+/**
+ * Issues the access and refresh tokens of the sessions, and keeps the revoked tokens in redis until they expire.
+ */
+@Service()
+export class TokenService {
+  private logger = Logger.getLogger(TokenService);
+
+  private commands?: TokenCommands;
+
+  private get redis(): TokenCommands {
+    if (!this.commands) {
+      const redis = Container.get(RedisClient).redis;
+      redis.defineCommand('rotateRefreshToken', { numberOfKeys: 1, lua: ROTATE });
+      this.commands = redis as TokenCommands;
+    }
+    return this.commands;
+  }
+
+  /**
+   * Starts a session, e.g. on login.
+   */
+  async issue(claims: TokenClaims): Promise<TokenPair> {
+    const sid = id(16);
+    const { pair, refreshJwtid } = this.sign(claims, sid);
+    await this.redis.set(sessionKey(sid), refreshJwtid, 'EX', jwtConfig().refreshTokenTtl);
+    return pair;
+  }
+
+  /**
+   * Exchanges the refresh token for a new pair with the same claims, the refresh token can not be exchanged again.
+   * An exchanged refresh token coming again means that a copy of it leaked, the session is revoked then.
+   */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const token = await this.verify(refreshToken);
+    if (token.typ !== 'refresh' || !token.sid) {
+      throw new BizError('error:invalidToken', { reason: 'not a refresh token' }, 401);
+    }
+    await this.check(token);
+    const { pair, refreshJwtid } = this.sign(token, token.sid);
+    const rotated = await this.redis.rotateRefreshToken(sessionKey(token.sid), token.jwtid, refreshJwtid, jwtConfig().refreshTokenTtl);
+    if (rotated < 0) {
+      this.logger.warn({ uid: token.uid, sid: token.sid }, 'A refresh token was reused, the session is revoked.');
+      throw new BizError('error:refreshTokenReused', {}, 401);
+    }
+    if (rotated === 0) {
+      throw new BizError('error:tokenRevoked', {}, 401);
+    }
+    return pair;
+  }
+
+  /**
+   * Revokes a token until it expires, the token string is verified first.
+   */
+  async revoke(token: string | CurrentUserToken) {
+    const user = typeof token === 'string' ? await this.verify(token, { ignoreExpiration: true }) : token;
+    const ttl = user.exp ? user.exp - Math.floor(Date.now() / 1000) : jwtConfig().refreshTokenTtl;
+    if (ttl > 0) {
+      await this.redis.set(revokedKey(user.jwtid), '1', 'EX', ttl);
+    }
+  }
+
+  /**
+   * Revokes the access and refresh tokens of the session, e.g. on logout.
+   */
+  async revokeSession(sid: string) {
+    await this.redis.del(sessionKey(sid));
+  }
+
+  /**
+   * Revokes every token issued to the uid so far, e.g. when the password changes.
+   * The tokens of TokenService carry the millisecond they are issued at in iatMs, the ones issued right after are valid.
+   * The other tokens only have iat, which counts seconds, so the ones issued in the same second are revoked as well.
+   */
+  async revokeAll(uid: string) {
+    const cfg = jwtConfig();
+    const ttl = Math.max(cfg.accessTokenTtl, cfg.refreshTokenTtl) + cfg.clockTolerance;
+    await this.redis.set(revokedBeforeKey(uid), `${Date.now()}`, 'EX', ttl);
+  }
+
+  async isRevoked(token: CurrentUserToken): Promise<boolean> {
+    const keys = [revokedKey(token.jwtid), revokedBeforeKey(token.uid)];
+    if (token.sid) {
+      keys.push(sessionKey(token.sid));
+    }
+    const [revoked, revokedBefore, session] = await this.redis.mget(...keys);
+    if (revoked || (revokedBefore && (token.iatMs ?? (token.iat ?? 0) * 1000) <= Number(revokedBefore))) {
+      return true;
+    }
+    return !!token.sid && !session;
+  }
+
+  /**
+   * Throws 401 for a revoked token, used by the default currentUserChecker when jwt.checkRevocation is set.
+   */
+  async check(token: CurrentUserToken) {
+    if (await this.isRevoked(token)) {
+      throw new BizError('error:tokenRevoked', {}, 401);
+    }
+  }
+
+  private async verify(token: string, options: VerifyOptions = {}): Promise<CurrentUserToken> {
+    try {
+      return (await jwtUtil.verifyJwt(token, options)) as any;
+    } catch (e: any) {
+      throw new BizError('error:invalidToken', { reason: e.message }, 401);
+    }
+  }
+
+  private sign(claims: TokenClaims, sid: string) {
+    const cfg = jwtConfig();
+    const payload = _.omit(claims, RESERVED_CLAIMS);
+    const refreshJwtid = id(16);
+    const iatMs = Date.now();
+    const pair: TokenPair = {
+      accessToken: jwtUtil.issueToken({ ...payload, jwtid: id(16), sid, typ: 'access', iatMs }, { expiresIn: cfg.accessTokenTtl }),
+      refreshToken: jwtUtil.issueToken({ ...payload, jwtid: refreshJwtid, sid, typ: 'refresh', iatMs }, { expiresIn: cfg.refreshTokenTtl }),
+      tokenType: 'Bearer',
+      expiresIn: cfg.accessTokenTtl,
+      refreshExpiresIn: cfg.refreshTokenTtl,
+    };
+    return { pair, refreshJwtid };
+  }
+}
@@ -1,12 +1,12 @@
 import { MicroframeworkSettings } from 'microframework';
-import { cpus } from 'os';
 import 'reflect-metadata';
 import { Container } from 'typedi';
-import { createConnection, useContainer } from 'typeorm';
+import { createConnection, DataSource, useContainer } from 'typeorm';
 import { initializeTransactionalContext, patchTypeORMRepositoryWithBaseRepository } from 'typeorm-transactional-cls-hooked';
-import { URL } from 'url';
-import { DatabaseConfig } from './ApplicationConfig';
+import { DatabaseConfig, DataSourceConfig } from './ApplicationConfig';
 import { ConfigManager } from './ConfigManager';
+import { describeDatabase, dialectOptions } from './DatabaseDialect';
+import { dataSourceOf, DEFAULT_DATA_SOURCE } from './DataSources';
 import { Logger } from './Logger';
 import { ClassType } from './types';
 initializeTransactionalContext(); // Initialize cls-hooked
@@ -15,29 +15,32 @@ patchTypeORMRepositoryWithBaseRepository(); // patch Repository with BaseReposit
 export type TypeormLoaderOption = {
   entities?: ClassType[];
   synchronize?: boolean;
+  migrations?: Array<string | Function>;
 };
-let dbUrl: URL;
 export const typeormLoader = (option: TypeormLoaderOption) => (settings?: MicroframeworkSettings) => {
   const entities = option.entities || [];
   useContainer(Container);
   const cfg = ConfigManager.getConfig<DatabaseConfig>('database');
-  dbUrl = new URL(cfg.mariaDBUrl);
-  return createConnection({
-    type: 'mariadb',
-    url: cfg.mariaDBUrl,
-    charset: 'utf8mb4',
-    // timezone: '+0000',
-    synchronize: option.synchronize ?? false,
-    logging: ConfigManager.isDevelopment(),
-    entities,
-    extra: {
-      waitForConnections: true,
-      connectionLimit: cpus().length * 2 + 1,
-    },
-  }).then((conn) => {
-    settings?.onShutdown(async () => conn.close());
-    const logger = Logger.getLogger('TypeormLoader');
-    logger.info(`🔗Database connected to ${dbUrl?.hostname}:${dbUrl?.port}${dbUrl?.pathname}. CPU: ${cpus().length}`);
-    return conn;
-  });
+  const dataSources: Record<string, DataSourceConfig> = { ...cfg.connections, [DEFAULT_DATA_SOURCE]: { ...cfg, synchronize: option.synchronize ?? false } };
+  const unknown = entities.filter((entity) => !dataSources[dataSourceOf(entity)]);
+  if (unknown.length > 0) {
+    throw new Error(`Data source is not declared in database.yml for entities: ${unknown.map((entity) => `${entity.name}(${dataSourceOf(entity)})`).join(', ')}`);
+  }
+  const logger = Logger.getLogger('TypeormLoader');
+  return Promise.all(
+    Object.keys(dataSources).map((name) =>
+      createConnection({
+        ...dialectOptions(dataSources[name]),
+        name,
+        synchronize: dataSources[name].synchronize ?? false,
+        logging: ConfigManager.isDevelopment(),
+        entities: entities.filter((entity) => dataSourceOf(entity) === name),
+        migrations: name === DEFAULT_DATA_SOURCE ? option.migrations : undefined,
+      }).then((conn) => {
+        settings?.onShutdown(async () => conn.close());
+        logger.info(`🔗Database(${name}) connected to ${describeDatabase(dataSources[name])}.`);
+        return conn;
+      }),
+    ),
+  ).then((conns) => conns.find((conn) => conn.name === DEFAULT_DATA_SOURCE) as DataSource);
 };
@@ -1,10 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { createHash } from 'crypto';
 import _ from 'lodash';
-import { FindOptionsWhere, FindManyOptions, getConnection, getRepository, Repository, SelectQueryBuilder, In, ObjectLiteral } from 'typeorm';
+import { DeleteResult, FindManyOptions, FindOptionsWhere, In, ObjectLiteral, Repository, SelectQueryBuilder, UpdateResult } from 'typeorm';
 import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
 import { transArray } from '../utils/transformer';
+import { ifMatchVersions, preconditionFailed, recordEntityVersion } from './ConditionalRequests';
+import { getDataSource } from './DataSources';
 import { id } from './IdGenerator';
 import { PaginationIn, PaginationOut, setSorting, skipAndTake } from './Pagination';
+import { RequestContext } from './RequestContext';
+import { abortable } from './RequestTimeout';
 import { ClassType } from './types';
 
 export type TransformOptions = {
@@ -12,6 +17,8 @@ export type TransformOptions = {
   groups?: string[];
 };
 
+type Criteria<Entity> = string | number | Date | string[] | number[] | Date[] | FindOptionsWhere<Entity>;
+
 export type QueryCallback<T extends ObjectLiteral> = (qb: SelectQueryBuilder<T>) => void;
 
 export type QueryOptions<T extends ObjectLiteral> = {
@@ -29,10 +36,9 @@ export class UniversalService<Entity extends ObjectLiteral, ID = any> {
   private properties: string[] = [];
 
   constructor(public readonly entity: ClassType<Entity>) {
-    this._repo = getRepository(entity) as Repository<Entity>;
-    this.properties = getConnection()
-      .getMetadata(entity)
-      .ownColumns.map((c) => c.propertyName);
+    const dataSource = getDataSource(entity);
+    this._repo = dataSource.getRepository(entity) as Repository<Entity>;
+    this.properties = dataSource.getMetadata(entity).ownColumns.map((c) => c.propertyName);
   }
 
   get repo() {
@@ -91,20 +97,99 @@ export class UniversalService<Entity extends ObjectLiteral, ID = any> {
 
   async readById(id: ID, options?: FindManyOptions<Entity>) {
     const whereCondition = { id } as any;
+    let record: Entity | null;
     if (this.hasProperty('isDel')) {
-      return this._repo.findOne({
+      record = await this._repo.findOne({
         where: { ...whereCondition, isDel: false },
         ...options,
       });
     } else {
-      return this._repo.findOne({
+      record = await this._repo.findOne({
         where: whereCondition,
         ...options,
       });
     }
+    if (record) {
+      recordEntityVersion(this._repo.metadata.name, id, this.versionOf(record), record.lastUpdate instanceof Date ? record.lastUpdate : undefined);
+    }
+    return record;
+  }
+
+  // the column changed by every update, @VersionColumn(), @UpdateDateColumn() or lastUpdate
+  private get versionColumn() {
+    const metadata = this._repo.metadata;
+    return metadata.versionColumn ?? metadata.updateDateColumn ?? metadata.findColumnWithPropertyName('lastUpdate');
+  }
+
+  // the version of the entity in the ETag, the hash of its columns when it has no version column, relations are not part of it
+  private versionOf(entity: Entity) {
+    const column = this.versionColumn;
+    if (column) {
+      const value = column.getEntityValue(entity);
+      return value instanceof Date ? `${value.getTime()}` : `${value}`;
+    }
+    return createHash('sha1')
+      .update(JSON.stringify(_.pick(entity, this.properties)))
+      .digest('base64url');
+  }
+
+  // the ids targeted by the criteria, a plain object only by its id
+  private idsOf(criteria: Criteria<Entity>): unknown[] {
+    if (Array.isArray(criteria)) {
+      return criteria;
+    }
+    if (_.isPlainObject(criteria)) {
+      const id = (criteria as any).id;
+      return _.isNil(id) || _.isObject(id) ? [] : [id];
+    }
+    return [criteria];
   }
 
-  async update(criteria: string | number | Date | string[] | number[] | Date[] | FindOptionsWhere<Entity>, partialEntity: QueryDeepPartialEntity<Entity>, autoGenerateData = true) {
+  /**
+   * Writes only when the entity is still at a version of If-Match, 412 otherwise. If-Match applies only to the writes
+   * of the one entity its ETag was issued for, the other writes of the request are not conditional. The version is a
+   * condition of the UPDATE/DELETE itself, the entities without a version column are locked while they are compared.
+   */
+  private async writeIfMatch<R extends UpdateResult | DeleteResult>(criteria: Criteria<Entity>, write: (repo: Repository<Entity>, where: any) => Promise<R>): Promise<R> {
+    const ids = this.idsOf(criteria);
+    const versions = ids.length === 1 ? ifMatchVersions(this._repo.metadata.name, ids[0]) : undefined;
+    if (!versions) {
+      return write(this._repo, criteria);
+    }
+    let where: any = criteria;
+    if (Array.isArray(criteria)) {
+      where = { id: In(criteria as any[]) };
+    } else if (!_.isPlainObject(criteria)) {
+      where = { id: criteria };
+    }
+    if (this.hasProperty('isDel')) {
+      where = { ...where, isDel: false };
+    }
+    const column = this.versionColumn;
+    if (column) {
+      const values = versions.filter((version) => /^\d+$/.test(version)).map((version) => (column === this._repo.metadata.versionColumn ? Number(version) : new Date(Number(version))));
+      if (values.length === 0) {
+        throw preconditionFailed();
+      }
+      const result = await write(this._repo, { ...where, [column.propertyName]: In(values) });
+      if (result.affected === 0) {
+        throw preconditionFailed();
+      }
+      return result;
+    }
+    return this._repo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(this.entity);
+      // sqlite has no row locks, the entities there need a version column for If-Match to be atomic
+      const lock = manager.connection.driver.options.type.includes('sqlite') ? undefined : { mode: 'pessimistic_write' as const };
+      const entities = await repo.find({ where, lock });
+      if (entities.length !== 1 || !versions.includes(this.versionOf(entities[0]))) {
+        throw preconditionFailed();
+      }
+      return write(repo, where);
+    });
+  }
+
+  async update(criteria: Criteria<Entity>, partialEntity: QueryDeepPartialEntity<Entity>, autoGenerateData = true) {
     if (autoGenerateData) {
       const autoGen = (entity: any) => {
         if (this.hasProperty('lastUpdate') && _.isNil(entity['lastUpdate'])) {
@@ -120,14 +205,14 @@ export class UniversalService<Entity extends ObjectLiteral, ID = any> {
     if (this.hasProperty('isDel')) {
       val = _.omit(val, 'isDel');
     }
-    return this._repo.update(criteria, val);
+    return this.writeIfMatch(criteria, (repo, where) => repo.update(where, val));
   }
 
-  async remove(criteria: string | number | Date | string[] | number[] | Date[] | FindOptionsWhere<Entity>) {
+  async remove(criteria: Criteria<Entity>) {
     if (this.hasProperty('isDel')) {
-      return this._repo.update(criteria, { isDel: UniversalService.DEL_VAL.DELETED } as any);
+      return this.writeIfMatch(criteria, (repo, where) => repo.update(where, { isDel: UniversalService.DEL_VAL.DELETED } as any));
     } else {
-      return this._repo.delete(criteria);
+      return this.writeIfMatch(criteria, (repo, where) => repo.delete(where));
     }
   }
 
@@ -192,7 +277,12 @@ export class UniversalService<Entity extends ObjectLiteral, ID = any> {
       options.beforeExecute(qb);
     }
 
-    const count = await qb.getCount();
+    // MySQL stops the queries itself, the others are only not waited for
+    const timeLeft = RequestContext.timeLeft();
+    if (timeLeft !== undefined) {
+      qb.maxExecutionTime(Math.max(timeLeft, 1));
+    }
+    const count = await abortable(qb.getCount());
     const { skip, take } = skipAndTake(count, search);
     if (search.sort) {
       const column = search.sort.startsWith('!') ? search.sort.substr(1) : search.sort;
@@ -201,7 +291,7 @@ export class UniversalService<Entity extends ObjectLiteral, ID = any> {
       }
     }
 
-    const records = await qb.skip(skip).take(take).getMany();
+    const records = await abortable(qb.skip(skip).take(take).getMany());
     return new PaginationOut(count, search.pageSize, options.voClass, records, options.groups);
   }
 }
@@ -0,0 +1,85 @@
+import http from 'http';
+import Koa from 'koa';
+import { AddressInfo } from 'net';
+import 'reflect-metadata';
+import '../ApplicationConfig';
+import { conditionalRequests, ifMatchVersions, recordEntityVersion } from '../ConditionalRequests';
+import { ConfigManager } from '../ConfigManager';
+import { KoaControllerReturnHandler } from '../KoaControllerReturnHandler';
+import { RequestContext } from '../RequestContext';
+
+type Response = { status: number; headers: http.IncomingHttpHeaders; body: string };
+
+// not fetch(), which sends Cache-Control: no-cache along with If-None-Match
+const get = (url: string, headers: http.OutgoingHttpHeaders = {}) =>
+  new Promise<Response>((resolve, reject) => {
+    http
+      .get(url, { headers }, (res) => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body }));
+      })
+      .on('error', reject);
+  });
+
+describe('conditionalRequests', () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    // the pino-pretty transport does not start inside jest
+    process.env.BASENODE_LOGGER__PRETTY_PRINT = 'false';
+    ConfigManager.validate('application');
+    // in the order of koaLoader
+    const app = new Koa();
+    app.use(RequestContext.middleware());
+    app.use((ctx, next) => new KoaControllerReturnHandler().use(ctx, next));
+    app.use(conditionalRequests());
+    app.use((ctx) => {
+      if (ctx.path === '/user') {
+        recordEntityVersion('User', 1, '5');
+        ctx.body = { id: 1, name: 'u1' };
+      } else {
+        // as routing-controllers answers a null result
+        ctx.body = null;
+        ctx.status = 404;
+      }
+    });
+    server = http.createServer(app.callback());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('answers 304 to a GET with a matching ETag', async () => {
+    const first = await get(`${url}/user`);
+    const etag = first.headers.etag;
+    expect(first.status).toBe(200);
+    expect(etag).toBeTruthy();
+    const second = await get(`${url}/user`, { 'If-None-Match': etag });
+    expect(second.status).toBe(304);
+    expect(second.body).toBe('');
+  });
+
+  it('answers 200 to a GET with another ETag', async () => {
+    const res = await get(`${url}/user`, { 'If-None-Match': '"other"' });
+    expect(res.status).toBe(200);
+    expect(JSON.parse(res.body)).toEqual({ id: 1, name: 'u1' });
+  });
+
+  it('still answers 404 to a null body', async () => {
+    expect((await get(`${url}/none`)).status).toBe(404);
+  });
+
+  it('applies If-Match only to the entity its ETag was issued for', async () => {
+    const etag = (await get(`${url}/user`)).headers.etag!;
+    RequestContext.run({ requestId: 'r1', ifMatch: `${etag}, "other"` }, () => {
+      expect(ifMatchVersions('User', 1)).toEqual(['5']);
+      expect(ifMatchVersions('User', '1')).toEqual(['5']);
+      expect(ifMatchVersions('User', 2)).toBeUndefined();
+      expect(ifMatchVersions('Audit', 1)).toBeUndefined();
+    });
+  });
+});
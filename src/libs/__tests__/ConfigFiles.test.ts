@@ -0,0 +1,41 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+import fs from 'fs';
+import 'reflect-metadata';
+
+// none, and the environments of the shipped config files, e.g. development of application.development.yml
+const environments = (): Array<string | undefined> => {
+  const names = fs.readdirSync('./cfg').filter((file) => file.endsWith('.yml'));
+  return [
+    undefined,
+    ...new Set(
+      names
+        .map((file) => file.split('.'))
+        .filter((parts) => parts.length > 2)
+        .map((parts) => parts[1]),
+    ),
+  ];
+};
+
+describe('the shipped config files', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  it.each(environments())('validate with NODE_ENV=%s', (environment) => {
+    if (environment) {
+      process.env.NODE_ENV = environment;
+    } else {
+      delete process.env.NODE_ENV;
+    }
+    jest.isolateModules(() => {
+      // the config classes register themselves with ConfigManager when imported
+      require('../ApplicationConfig');
+      require('../Logger');
+      require('../DistributedEvents');
+      const { ConfigManager } = require('../ConfigManager');
+      expect(() => ConfigManager.validate()).not.toThrow();
+    });
+  });
+});
@@ -54,6 +54,10 @@ export const serviceTemplate = (appName: string, enableApiGatewayAuth = false) =
 	"plugins": {
         "prometheus": {},
         "cors": {}, 
+        "request-id": {
+            "header_name": "X-Request-Id",
+            "include_in_response": true
+        },
         ${enableApiGatewayAuth ? '"fot-usercenter-auth": {},' : ''}
 		"limit-count": {
 			"count": 200,
@@ -67,14 +71,14 @@ export const serviceTemplate = (appName: string, enableApiGatewayAuth = false) =
 }`;
 
 export const routeUriTemplate = (appName: string) => `/apisix/admin/routes/${crypto.md5(`route_${appName}`)}`;
-export const routeTemplate = (appName: string, domains: string[], apiVersion: string, build: string, version: string) => `{
+export const routeTemplate = (appName: string, domains: string[], apiVersions: string[], build: string, version: string) => `{
     "name": "${appName}",
-    "uri": "/api/v${apiVersion}/${appName}/*",
+    "uris": ${JSON.stringify(apiVersions.map((apiVersion) => `/api/v${apiVersion}/${appName}/*`))},
     "hosts": ${JSON.stringify(domains)},
     "enable_websocket": true,
     "service_id": "${crypto.md5(`service_${appName}`)}",
     "labels": {
-        "API_VERSION": "v${apiVersion}",
+        "API_VERSION": "${apiVersions.map((apiVersion) => `v${apiVersion}`).join(',')}",
         "build": "${build}",
         "version": "${version}"
     }
@@ -1,4 +1,5 @@
 import http from 'http';
+import { RequestContext } from '../RequestContext';
 
 export const httpPut = async (hostname: string, port: number, path: string, data: string, xApiKey: string, log = false) => {
   return new Promise<number>((resolve, reject) => {
@@ -11,6 +12,7 @@ export const httpPut = async (hostname: string, port: number, path: string, data
         'X-API-KEY': xApiKey,
         'Content-Type': 'application/json',
         'Content-Length': data.length,
+        ...RequestContext.outboundHeaders(),
       },
     };
     let statusCode = 200;
@@ -0,0 +1,118 @@
+import { Enforcer, newEnforcer, newModelFromFile, newModelFromString } from 'casbin';
+import _ from 'lodash';
+import { Action } from 'routing-controllers';
+import { AuthorizationChecker } from 'routing-controllers/types/AuthorizationChecker';
+import { Container, Service } from 'typedi';
+import { routeAccessPolicy } from '../AccessControl';
+import { ApplicationConfig, CasbinConfig } from '../ApplicationConfig';
+import { BizError } from '../BizError';
+import { ConfigManager } from '../ConfigManager';
+import { CurrentUserToken } from '../CurrentUserToken';
+import { registeredRoute } from '../HttpMethods';
+import { KoaHolder } from '../KoaLoader';
+import { RedisWatcher } from './RedisWatcher';
+import { TypeormAdapter } from './TypeormAdapter';
+
+export const CASBIN_CHANNEL = 'CasbinPolicyChanged';
+
+/**
+ * The subjects are the roles and the uid of the token, the objects are the functionNames of the routes (`example.user.*` matches many),
+ * e.g. `p, admin, *, example.*` allows the admins of every app, `g, u1, admin` makes the user u1 an admin.
+ */
+export const CASBIN_MODEL = `
+[request_definition]
+r = sub, app, fn
+
+[policy_definition]
+p = sub, app, fn
+
+[role_definition]
+g = _, _
+
+[policy_effect]
+e = some(where (p.eft == allow))
+
+[matchers]
+m = g(r.sub, p.sub) && (p.app == "*" || r.app == p.app) && keyMatch(r.fn, p.fn)
+`;
+
+/**
+ * Checks the routes registered by Get/Post/... against the casbin policies of the casbin_rule table.
+ * The policy changes made through the enforcer reach the other pods through redis.
+ */
+@Service()
+export class CasbinAuthorization {
+  private enforcer?: Promise<Enforcer>;
+
+  /**
+   * Created on the first use, once the data sources and redis are up.
+   */
+  getEnforcer(): Promise<Enforcer> {
+    if (!this.enforcer) {
+      this.enforcer = this.createEnforcer().catch((e) => {
+        this.enforcer = undefined;
+        throw e;
+      });
+    }
+    return this.enforcer;
+  }
+
+  private async createEnforcer() {
+    const cfg = ConfigManager.getConfig<CasbinConfig>('casbin');
+    const model = cfg.model ? newModelFromFile(cfg.model) : newModelFromString(CASBIN_MODEL);
+    const enforcer = await newEnforcer(model, new TypeormAdapter(cfg.entity));
+    const watcher = new RedisWatcher(CASBIN_CHANNEL);
+    await watcher.start();
+    enforcer.setWatcher(watcher);
+    return enforcer;
+  }
+
+  /**
+   * The roles of the token and of the uid in the policies, with the roles they inherit.
+   */
+  async rolesOf(user: CurrentUserToken) {
+    const enforcer = await this.getEnforcer();
+    const subjects = [user.uid, ...(user.roles ?? [])];
+    const inherited = await Promise.all(subjects.map((subject) => enforcer.getImplicitRolesForUser(subject)));
+    return _.uniq([...(user.roles ?? []), ...inherited.flat()]);
+  }
+
+  /**
+   * Whether the user may call the route: one of the roles of `@Authorized(roles)` if any,
+   * the app of the token among the apps of the route, and a policy allowing the functionName (or each @RequirePermission()) of the route,
+   * or the apiName of the routes without a functionName, e.g. `example.User.getUser`.
+   * The routes which are not registered by Get/Post/... are only checked for the roles and their @RequirePermission().
+   */
+  async check(action: Action, roles: string[]) {
+    const user: CurrentUserToken | undefined = action.context.state.user ?? (await KoaHolder.currentUserChecker?.(action));
+    if (!user?.uid) {
+      return false;
+    }
+    if (roles.length > 0 && _.intersection(roles, await this.rolesOf(user)).length === 0) {
+      return false;
+    }
+    const route = registeredRoute(action.context.method, action.context._matchedRoute ?? '');
+    const permissions = routeAccessPolicy(action)?.permissions;
+    if (!route && !permissions) {
+      return true;
+    }
+    const apps = route ? _.castArray(route.app) : ['*'];
+    const { appName } = ConfigManager.getConfig<ApplicationConfig>('application');
+    // the permissions of @RequirePermission() replace the functionName of the route, the routes without one are checked by their apiName
+    const functionNames = permissions?.map((fn) => `${appName}.${fn}`) ?? [route!.functionName === 'internal' ? route!._apiName.replace(/^internal\./, '') : `${appName}.${route!.functionName}`];
+    const enforcer = await this.getEnforcer();
+    const subjects = [user.uid, ...(user.roles ?? [])];
+    for (const functionName of functionNames) {
+      const allowed = (apps.includes('*') || apps.includes(user.app)) && (await Promise.all(subjects.map((subject) => enforcer.enforce(subject, user.app, functionName)))).some(Boolean);
+      if (!allowed) {
+        throw new BizError('error:accessDenied', { functionName }, 403);
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * The authorizationChecker of KoaLoaderOption checking the casbin policies, e.g. `bootstrap({ authorizationChecker: casbinAuthorizationChecker, ... })`.
+ */
+export const casbinAuthorizationChecker: AuthorizationChecker = (action, roles) => Container.get(CasbinAuthorization).check(action, roles);
@@ -0,0 +1,48 @@
+import { Watcher } from 'casbin';
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { Container } from 'typedi';
+import { GracefulShutdown } from '../GracefulShutdown';
+import { Logger } from '../Logger';
+import { RedisClient } from '../RedisClient';
+
+/**
+ * Reloads the policies of every pod when one of them changes the policies.
+ */
+export class RedisWatcher implements Watcher {
+  private logger = Logger.getLogger(RedisWatcher);
+
+  // the pod which changed the policies has them already
+  private readonly instanceId = randomUUID();
+
+  private callback?: () => void;
+
+  private subscriber?: Redis;
+
+  constructor(private readonly channel: string) {}
+
+  async start() {
+    this.subscriber = Container.get(RedisClient).newClient();
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel === this.channel && message !== this.instanceId) {
+        this.logger.info('Reloading the casbin policies.');
+        this.callback?.();
+      }
+    });
+    await this.subscriber.subscribe(this.channel);
+    GracefulShutdown.onShutdown(() => this.close());
+  }
+
+  setUpdateCallback(callback: () => void) {
+    this.callback = callback;
+  }
+
+  async update() {
+    await Container.get(RedisClient).redis.publish(this.channel, this.instanceId);
+    return true;
+  }
+
+  close() {
+    this.subscriber?.disconnect();
+  }
+}
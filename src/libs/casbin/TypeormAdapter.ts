@@ -0,0 +1,91 @@
+import { Adapter, Model } from 'casbin';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { getDataSources } from '../DataSources';
+import { id } from '../IdGenerator';
+
+export type CasbinRuleRecord = {
+  id?: string;
+  ptype: string | null;
+  v0: string | null;
+  v1: string | null;
+  v2: string | null;
+  v3: string | null;
+  v4: string | null;
+  v5: string | null;
+};
+
+const FIELDS = ['v0', 'v1', 'v2', 'v3', 'v4', 'v5'] as const;
+
+/**
+ * Keeps the casbin policies in the table of the entity (`casbin_rule`), in the data source which has the entity.
+ */
+export class TypeormAdapter implements Adapter {
+  constructor(private readonly entity: string | Function) {}
+
+  private get repo(): Repository<CasbinRuleRecord> {
+    const dataSource = getDataSources().find((ds) => ds.hasMetadata(this.entity));
+    if (!dataSource) {
+      throw new Error(`The entity ${typeof this.entity === 'string' ? this.entity : this.entity.name} of the casbin rules is not registered.`);
+    }
+    return dataSource.getRepository<CasbinRuleRecord>(this.entity);
+  }
+
+  private toRecord(ptype: string, rule: string[]) {
+    const record: Partial<CasbinRuleRecord> = { ptype };
+    FIELDS.forEach((field, i) => (record[field] = rule[i] ?? null));
+    // the ids of the example entity are not generated by the database
+    const idColumn = this.repo.metadata.findColumnWithPropertyName('id');
+    if (idColumn && !idColumn.isGenerated) {
+      record.id = id(Number(idColumn.length) || undefined);
+    }
+    return record as CasbinRuleRecord;
+  }
+
+  private toRule(record: CasbinRuleRecord) {
+    const rule = FIELDS.map((field) => record[field] ?? '');
+    while (rule.length > 0 && rule[rule.length - 1] === '') {
+      rule.pop();
+    }
+    return rule;
+  }
+
+  async loadPolicy(model: Model) {
+    const records = await this.repo.find();
+    records.filter((record) => record.ptype).forEach((record) => model.addPolicy(record.ptype!.substring(0, 1), record.ptype!, this.toRule(record)));
+  }
+
+  async savePolicy(model: Model) {
+    const records: CasbinRuleRecord[] = [];
+    ['p', 'g'].forEach((sec) =>
+      model.model.get(sec)?.forEach((assertion, ptype) => {
+        assertion.policy.forEach((rule) => records.push(this.toRecord(ptype, rule)));
+      }),
+    );
+    await this.repo.manager.transaction(async (manager) => {
+      await manager.createQueryBuilder().delete().from(this.repo.target).execute();
+      if (records.length > 0) {
+        await manager.insert(this.repo.target, records);
+      }
+    });
+    return true;
+  }
+
+  async addPolicy(_sec: string, ptype: string, rule: string[]) {
+    await this.repo.insert(this.toRecord(ptype, rule));
+  }
+
+  async removePolicy(_sec: string, ptype: string, rule: string[]) {
+    await this.removeFilteredPolicy(_sec, ptype, 0, ...rule);
+  }
+
+  // the empty values match any value
+  async removeFilteredPolicy(_sec: string, ptype: string, fieldIndex: number, ...fieldValues: string[]) {
+    const where: FindOptionsWhere<CasbinRuleRecord> = { ptype };
+    fieldValues.forEach((value, i) => {
+      if (value) {
+        where[FIELDS[fieldIndex + i]] = value;
+      }
+    });
+    await this.repo.delete(where);
+  }
+}
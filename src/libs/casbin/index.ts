@@ -0,0 +1,5 @@
+// created from 'create-ts-index'
+
+export * from './CasbinAuthorization';
+export * from './RedisWatcher';
+export * from './TypeormAdapter';
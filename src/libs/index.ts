@@ -1,29 +1,54 @@
 // created from 'create-ts-index'
 
 export * from './apisix';
+export * from './casbin';
+export * from './storage';
+export * from './AccessControl';
+export * from './AccessLog';
+export * from './AccessPolicies';
 export * from './ApiGatewayLoader';
 export * from './ApiRegisterController';
+export * from './ApiVersions';
 export * from './ApplicationConfig';
 export * from './BizError';
 export * from './CacheService';
+export * from './ConditionalRequests';
 export * from './ConfigManager';
 export * from './Converter';
 export * from './CurrentUserToken';
+export * from './DatabaseDialect';
+export * from './DataSources';
 export * from './DistributedEvents';
 export * from './DistributedEventsLoader';
 export * from './EventsManager';
+export * from './FileDownload';
+export * from './FileUpload';
+export * from './GracefulShutdown';
 export * from './HealthCheckController';
 export * from './HttpMethods';
+export * from './HttpMiddlewares';
 export * from './IdGenerator';
+export * from './Idempotency';
+export * from './JwksController';
 export * from './KoaControllerReturnHandler';
 export * from './KoaLoader';
 export * from './Leader';
+export * from './Lifecycle';
+export * from './LifecycleLoader';
 export * from './Logger';
+export * from './MigrationLoader';
+export * from './MigrationRunner';
 export * from './Pagination';
+export * from './RateLimiter';
 export * from './RedisClient';
 export * from './RedisLoader';
+export * from './RequestContext';
+export * from './RequestTimeout';
 export * from './ResRegTypes';
+export * from './ServiceAuth';
+export * from './StorageLoader';
 export * from './Timer';
+export * from './TokenService';
 export * from './TypeormLoader';
 export * from './UniversalController';
 export * from './UniversalService';
@@ -0,0 +1,155 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { randomUUID, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { crypto } from '../../utils/crypto';
+import { ApplicationConfig, LocalStorageConfig } from '../ApplicationConfig';
+import { BizError } from '../BizError';
+import { ConfigManager } from '../ConfigManager';
+import { ByteRange } from '../FileDownload';
+import { ListOption, ListResult, ObjectMeta, PresignOption, PutOption, StorageBody, StorageDriver } from './StorageDriver';
+
+// content types and metadata are kept aside of the objects, the partial writes are renamed into place when complete
+const META_DIR = '.meta';
+const TEMP_DIR = '.tmp';
+const DEFAULT_LIST_LIMIT = 1000;
+
+type LocalMeta = Pick<ObjectMeta, 'contentType' | 'metadata'>;
+
+const isMissing = (e: any) => e?.code === 'ENOENT';
+
+export const encodeKey = (key: string) => key.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Keeps the objects as files under storage.local.dir, for the development and the single node deployments.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  constructor(
+    private readonly cfg: LocalStorageConfig,
+    private readonly presignExpires: number,
+  ) {}
+
+  // the keys must stay inside the dir
+  private segmentsOf(key: string) {
+    const segments = key.split('/');
+    if (segments.some((s) => !s || s === '.' || s === '..') || [META_DIR, TEMP_DIR].includes(segments[0])) {
+      throw new BizError('error:storage.invalidKey', { key }, 400);
+    }
+    return segments;
+  }
+
+  private pathOf(key: string) {
+    return path.join(this.cfg.dir, ...this.segmentsOf(key));
+  }
+
+  private metaPathOf(key: string) {
+    return `${path.join(this.cfg.dir, META_DIR, ...this.segmentsOf(key))}.json`;
+  }
+
+  async put(key: string, body: StorageBody, option: PutOption = {}): Promise<ObjectMeta> {
+    const filePath = this.pathOf(key);
+    const tempPath = path.join(this.cfg.dir, TEMP_DIR, randomUUID());
+    await fs.promises.mkdir(path.dirname(tempPath), { recursive: true });
+    try {
+      await pipeline(body instanceof Readable ? body : Readable.from([body]), fs.createWriteStream(tempPath));
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.rename(tempPath, filePath);
+    } catch (e) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw e;
+    }
+    const meta: LocalMeta = { contentType: option.contentType, metadata: option.metadata };
+    const metaPath = this.metaPathOf(key);
+    await fs.promises.mkdir(path.dirname(metaPath), { recursive: true });
+    await fs.promises.writeFile(metaPath, JSON.stringify(meta));
+    return (await this.stat(key))!;
+  }
+
+  async get(key: string) {
+    return fs.promises.readFile(this.pathOf(key)).catch((e) => {
+      throw isMissing(e) ? new BizError('error:fileNotFound', { key }, 404) : e;
+    });
+  }
+
+  async stream(key: string, range?: ByteRange) {
+    if (!(await this.stat(key))) {
+      throw new BizError('error:fileNotFound', { key }, 404);
+    }
+    return fs.createReadStream(this.pathOf(key), range);
+  }
+
+  async stat(key: string): Promise<ObjectMeta | undefined> {
+    const stat = await fs.promises.stat(this.pathOf(key)).catch((e) => {
+      if (isMissing(e)) {
+        return undefined;
+      }
+      throw e;
+    });
+    if (!stat?.isFile()) {
+      return undefined;
+    }
+    const meta: LocalMeta = await fs.promises
+      .readFile(this.metaPathOf(key), 'utf8')
+      .then((json) => JSON.parse(json))
+      .catch(() => ({}));
+    return { key, size: stat.size, lastModified: stat.mtime, etag: `"${stat.size.toString(16)}-${stat.mtime.getTime().toString(16)}"`, ...meta };
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.pathOf(key), { force: true });
+    await fs.promises.rm(this.metaPathOf(key), { force: true });
+  }
+
+  // the keys of the files under the dir, in the order of S3
+  private async keys(dir: string, prefix: string): Promise<string[]> {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch((e) => {
+      if (isMissing(e)) {
+        return [];
+      }
+      throw e;
+    });
+    const keys = await Promise.all(entries.filter((entry) => prefix || ![META_DIR, TEMP_DIR].includes(entry.name)).map((entry) => (entry.isDirectory() ? this.keys(path.join(dir, entry.name), `${prefix}${entry.name}/`) : [`${prefix}${entry.name}`])));
+    return keys.flat().sort();
+  }
+
+  async list(prefix = '', option: ListOption = {}): Promise<ListResult> {
+    const limit = option.limit ?? DEFAULT_LIST_LIMIT;
+    const keys = (await this.keys(this.cfg.dir, '')).filter((key) => key.startsWith(prefix) && (!option.token || key > option.token));
+    const page = keys.slice(0, limit);
+    const objects = await Promise.all(page.map((key) => this.stat(key)));
+    return { objects: objects.filter((meta): meta is ObjectMeta => !!meta), nextToken: keys.length > limit ? page[page.length - 1] : undefined };
+  }
+
+  /**
+   * A url of StorageController, signed with the private key of the application. Only GET is supported.
+   */
+  async presignedUrl(key: string, option: PresignOption = {}) {
+    if ((option.method ?? 'GET') !== 'GET') {
+      throw new BizError('error:storage.presignNotSupported', { method: option.method }, 400);
+    }
+    this.segmentsOf(key);
+    const expires = Math.floor(Date.now() / 1000) + (option.expiresIn ?? this.presignExpires);
+    const signature = LocalStorageDriver.sign(key, expires);
+    return `${this.baseUrl}/_storage/${encodeKey(key)}?expires=${expires}&signature=${signature}`;
+  }
+
+  private get baseUrl() {
+    if (this.cfg.baseUrl) {
+      return this.cfg.baseUrl.replace(/\/$/, '');
+    }
+    const { port, version, appName } = ConfigManager.getConfig<ApplicationConfig>('application');
+    return `http://localhost:${port}/api/v${version}/${appName}`;
+  }
+
+  static sign(key: string, expires: number) {
+    return crypto.sha1Hmac(`GET\n${key}\n${expires}`);
+  }
+
+  static verify(key: string, expires: number, signature: string) {
+    const expected = Buffer.from(LocalStorageDriver.sign(key, expires));
+    const actual = Buffer.from(signature);
+    return expires * 1000 > Date.now() && expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,300 @@
+import { createHash, createHmac } from 'crypto';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import _ from 'lodash';
+import { Readable } from 'stream';
+import { S3StorageConfig } from '../ApplicationConfig';
+import { BizError } from '../BizError';
+import { ByteRange } from '../FileDownload';
+import { RequestContext } from '../RequestContext';
+import { ListOption, ListResult, ObjectMeta, PresignOption, PutOption, StorageBody, StorageDriver } from './StorageDriver';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+const META_PREFIX = 'x-amz-meta-';
+// S3 requires 5 MiB at least for every part but the last one
+const PART_SIZE = 8 * 1024 * 1024;
+const DEFAULT_LIST_LIMIT = 1000;
+
+type S3Request = {
+  method: string;
+  key?: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: Buffer | Readable;
+};
+
+// the RFC 3986 encoding of SigV4
+const uriEncode = (value: string) => encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const canonicalQuery = (query: Record<string, string>) =>
+  Object.keys(query)
+    .map((name) => [uriEncode(name), uriEncode(query[name])])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: Buffer | string, data: string) => createHmac('sha256', key).update(data).digest();
+
+// 20130524T000000Z
+const amzDate = (date: Date) => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const xmlValues = (xml: string, tag: string) => {
+  const values: string[] = [];
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+  for (let match = pattern.exec(xml); match; match = pattern.exec(xml)) {
+    values.push(match[1].replace(/&(amp|lt|gt|quot|apos);/g, (_entity, name) => XML_ENTITIES[name]));
+  }
+  return values;
+};
+
+const xmlValue = (xml: string, tag: string): string | undefined => xmlValues(xml, tag)[0];
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// buffers the stream into parts of the size, the last one is smaller (or empty)
+async function* partsOf(stream: Readable, size: number) {
+  let buffered: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of stream) {
+    buffered.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    length += chunk.length;
+    while (length >= size) {
+      const all = Buffer.concat(buffered);
+      yield all.subarray(0, size);
+      buffered = [all.subarray(size)];
+      length -= size;
+    }
+  }
+  yield Buffer.concat(buffered);
+}
+
+/**
+ * AWS Signature Version 4, by the Authorization header or by the query of a presigned url.
+ */
+export class SigV4Signer {
+  constructor(
+    private readonly region: string,
+    private readonly accessKeyId: string,
+    private readonly secretAccessKey: string,
+    private readonly service = 's3',
+  ) {}
+
+  private scope(date: string) {
+    return `${date.substring(0, 8)}/${this.region}/${this.service}/aws4_request`;
+  }
+
+  private signature(date: string, canonicalRequest: string) {
+    const stringToSign = [ALGORITHM, date, this.scope(date), sha256(canonicalRequest)].join('\n');
+    const signingKey = [date.substring(0, 8), this.region, this.service, 'aws4_request'].reduce<Buffer | string>((key, part) => hmac(key, part), `AWS4${this.secretAccessKey}`);
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  /**
+   * The headers of the request with x-amz-date, x-amz-content-sha256 and authorization. The path must be uri encoded already.
+   */
+  sign(method: string, host: string, path: string, query: Record<string, string>, headers: Record<string, string>, payloadHash = UNSIGNED_PAYLOAD, now = new Date()): Record<string, string> {
+    const date = amzDate(now);
+    const signed: Record<string, string> = { ..._.mapKeys(headers, (_value, name) => name.toLowerCase()), host, 'x-amz-content-sha256': payloadHash, 'x-amz-date': date };
+    // node sets content-length itself
+    const names = Object.keys(signed)
+      .filter((name) => name !== 'content-length')
+      .sort();
+    const canonicalHeaders = names.map((name) => `${name}:${signed[name].trim()}\n`).join('');
+    const canonicalRequest = [method, path, canonicalQuery(query), canonicalHeaders, names.join(';'), payloadHash].join('\n');
+    const authorization = `${ALGORITHM} Credential=${this.accessKeyId}/${this.scope(date)}, SignedHeaders=${names.join(';')}, Signature=${this.signature(date, canonicalRequest)}`;
+    return { ...signed, authorization };
+  }
+
+  /**
+   * The query string of a presigned url, which signs the host header only.
+   */
+  presign(method: string, host: string, path: string, query: Record<string, string>, expiresIn: number, now = new Date()) {
+    const date = amzDate(now);
+    const params = { ...query, 'X-Amz-Algorithm': ALGORITHM, 'X-Amz-Credential': `${this.accessKeyId}/${this.scope(date)}`, 'X-Amz-Date': date, 'X-Amz-Expires': `${expiresIn}`, 'X-Amz-SignedHeaders': 'host' };
+    const canonicalRequest = [method, path, canonicalQuery(params), `host:${host}\n`, 'host', UNSIGNED_PAYLOAD].join('\n');
+    return `${canonicalQuery(params)}&X-Amz-Signature=${this.signature(date, canonicalRequest)}`;
+  }
+}
+
+/**
+ * Talks the S3 REST api with SigV4, to AWS S3 or to an S3-compatible server such as MinIO (forcePathStyle).
+ * The streams of unknown length are uploaded in parts, so that at most one part is buffered in memory.
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly endpoint: URL;
+
+  private readonly signer: SigV4Signer;
+
+  constructor(
+    private readonly cfg: S3StorageConfig,
+    private readonly presignExpires: number,
+  ) {
+    this.endpoint = new URL(cfg.endpoint);
+    this.signer = new SigV4Signer(cfg.region, cfg.accessKeyId, cfg.secretAccessKey);
+  }
+
+  // http://endpoint/bucket/key, or http://bucket.endpoint/key
+  private target(key?: string) {
+    const base = this.endpoint.pathname.replace(/\/$/, '');
+    const keyPath = key ? `/${key.split('/').map(uriEncode).join('/')}` : '/';
+    if (this.cfg.forcePathStyle) {
+      return { hostname: this.endpoint.hostname, host: this.endpoint.host, path: `${base}/${uriEncode(this.cfg.bucket)}${key ? keyPath : ''}` };
+    }
+    return { hostname: `${this.cfg.bucket}.${this.endpoint.hostname}`, host: `${this.cfg.bucket}.${this.endpoint.host}`, path: `${base}${keyPath}` };
+  }
+
+  private request(req: S3Request): Promise<IncomingMessage> {
+    const { hostname, host, path } = this.target(req.key);
+    const query = req.query ?? {};
+    const headers = this.signer.sign(req.method, host, path, query, req.headers ?? {});
+    const queryString = canonicalQuery(query);
+    const client = this.endpoint.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.request({ method: req.method, hostname, port: this.endpoint.port, path: queryString ? `${path}?${queryString}` : path, headers, signal: RequestContext.signal }, resolve);
+      request.on('error', reject);
+      if (req.body instanceof Readable) {
+        req.body.on('error', (e) => request.destroy(e));
+        req.body.pipe(request);
+      } else {
+        request.end(req.body);
+      }
+    });
+  }
+
+  // the error responses of S3 become BizErrors, a missing object 404
+  private async send(req: S3Request, accepted: number[] = []) {
+    const res = await this.request(req);
+    const status = res.statusCode ?? 500;
+    if (status < 300 || accepted.includes(status)) {
+      return res;
+    }
+    const code = xmlValue((await readAll(res)).toString(), 'Code');
+    if (status === 404 && req.key && code !== 'NoSuchBucket') {
+      throw new BizError('error:fileNotFound', { key: req.key }, 404);
+    }
+    throw new BizError('error:storage.requestFailed', { status, code }, 502);
+  }
+
+  private async sendAndRead(req: S3Request) {
+    return (await readAll(await this.send(req))).toString();
+  }
+
+  private putHeaders(option: PutOption) {
+    const headers: Record<string, string> = {};
+    if (option.contentType) {
+      headers['content-type'] = option.contentType;
+    }
+    _.forEach(option.metadata, (value, name) => {
+      headers[`${META_PREFIX}${name.toLowerCase()}`] = value;
+    });
+    return headers;
+  }
+
+  async put(key: string, body: StorageBody, option: PutOption = {}): Promise<ObjectMeta> {
+    if (body instanceof Readable) {
+      return this.putStream(key, body, option);
+    }
+    const data = typeof body === 'string' ? Buffer.from(body) : body;
+    const res = await this.send({ method: 'PUT', key, headers: { ...this.putHeaders(option), 'content-length': `${data.length}` }, body: data });
+    res.resume();
+    return { key, size: data.length, contentType: option.contentType, etag: res.headers.etag, metadata: option.metadata };
+  }
+
+  // a stream shorter than a part is sent with a single PUT
+  private async putStream(key: string, stream: Readable, option: PutOption): Promise<ObjectMeta> {
+    const parts = partsOf(stream, PART_SIZE);
+    let part = await parts.next();
+    if (part.done || part.value.length < PART_SIZE) {
+      return this.put(key, part.done ? Buffer.alloc(0) : part.value, option);
+    }
+    const uploadId = xmlValue(await this.sendAndRead({ method: 'POST', key, query: { uploads: '' }, headers: this.putHeaders(option) }), 'UploadId')!;
+    try {
+      const etags: string[] = [];
+      let size = 0;
+      while (!part.done && part.value.length > 0) {
+        const res = await this.send({ method: 'PUT', key, query: { partNumber: `${etags.length + 1}`, uploadId }, headers: { 'content-length': `${part.value.length}` }, body: part.value });
+        res.resume();
+        etags.push(res.headers.etag as string);
+        size += part.value.length;
+        part = await parts.next();
+      }
+      const complete = Buffer.from(`<CompleteMultipartUpload>${etags.map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag}</ETag></Part>`).join('')}</CompleteMultipartUpload>`);
+      const result = await this.sendAndRead({ method: 'POST', key, query: { uploadId }, headers: { 'content-type': 'application/xml', 'content-length': `${complete.length}` }, body: complete });
+      // the completion can fail after 200 has been sent
+      if (xmlValue(result, 'Code')) {
+        throw new BizError('error:storage.requestFailed', { status: 200, code: xmlValue(result, 'Code') }, 502);
+      }
+      return { key, size, contentType: option.contentType, etag: xmlValue(result, 'ETag'), metadata: option.metadata };
+    } catch (e) {
+      await this.send({ method: 'DELETE', key, query: { uploadId } }).then((res) => res.resume(), _.noop);
+      throw e;
+    }
+  }
+
+  async get(key: string) {
+    return readAll(await this.stream(key));
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    const headers: Record<string, string> = range ? { range: `bytes=${range.start}-${range.end}` } : {};
+    return this.send({ method: 'GET', key, headers });
+  }
+
+  async stat(key: string): Promise<ObjectMeta | undefined> {
+    const res = await this.send({ method: 'HEAD', key }, [404]);
+    res.resume();
+    if (res.statusCode === 404) {
+      return undefined;
+    }
+    const metadata: Record<string, string> = {};
+    _.forEach(res.headers, (value, name) => {
+      if (name.startsWith(META_PREFIX) && typeof value === 'string') {
+        metadata[name.substring(META_PREFIX.length)] = value;
+      }
+    });
+    return {
+      key,
+      size: Number(res.headers['content-length']),
+      contentType: res.headers['content-type'],
+      lastModified: res.headers['last-modified'] ? new Date(res.headers['last-modified']) : undefined,
+      etag: res.headers.etag,
+      metadata,
+    };
+  }
+
+  async delete(key: string) {
+    (await this.send({ method: 'DELETE', key })).resume();
+  }
+
+  async list(prefix = '', option: ListOption = {}): Promise<ListResult> {
+    const query: Record<string, string> = { 'list-type': '2', prefix, 'max-keys': `${option.limit ?? DEFAULT_LIST_LIMIT}` };
+    if (option.token) {
+      query['continuation-token'] = option.token;
+    }
+    const xml = await this.sendAndRead({ method: 'GET', query });
+    const objects = xmlValues(xml, 'Contents').map((contents) => ({
+      key: xmlValue(contents, 'Key')!,
+      size: Number(xmlValue(contents, 'Size')),
+      lastModified: new Date(xmlValue(contents, 'LastModified')!),
+      etag: xmlValue(contents, 'ETag'),
+    }));
+    return { objects, nextToken: xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined };
+  }
+
+  async presignedUrl(key: string, option: PresignOption = {}) {
+    const { host, path } = this.target(key);
+    const query = this.signer.presign(option.method ?? 'GET', host, path, {}, option.expiresIn ?? this.presignExpires);
+    return `${this.endpoint.protocol}//${host}${path}?${query}`;
+  }
+}
@@ -0,0 +1,26 @@
+import { Context } from 'koa';
+import { Ctx, Get, JsonController, Param, QueryParam } from 'routing-controllers';
+import { Container, Service } from 'typedi';
+import { Public } from '../AccessPolicies';
+import { Versions } from '../ApiVersions';
+import { BizError } from '../BizError';
+import { sendFile } from '../FileDownload';
+import { LocalStorageDriver } from './LocalStorageDriver';
+import { StorageService } from './StorageService';
+
+/**
+ * Serves the presigned urls of LocalStorageDriver, registered by koaLoader when the local driver is used.
+ */
+@JsonController()
+@Versions('*')
+@Public()
+@Service()
+export class StorageController {
+  @Get('/_storage/:key(.*)')
+  async download(@Param('key') key: string, @QueryParam('expires') expires: number, @QueryParam('signature') signature: string, @Ctx() ctx: Context) {
+    if (!expires || !signature || !LocalStorageDriver.verify(key, expires, signature)) {
+      throw new BizError('error:storage.invalidSignature', {}, 403);
+    }
+    return sendFile(ctx, Container.get(StorageService).source(key), { disposition: 'inline' });
+  }
+}
@@ -0,0 +1,51 @@
+import { Readable } from 'stream';
+import { ByteRange } from '../FileDownload';
+
+export type StorageBody = Buffer | string | Readable;
+
+export type ObjectMeta = {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+  etag?: string;
+  // user defined, ASCII only for S3
+  metadata?: Record<string, string>;
+};
+
+export type PutOption = {
+  contentType?: string;
+  metadata?: Record<string, string>;
+};
+
+export type ListOption = {
+  limit?: number;
+  // nextToken of the previous page
+  token?: string;
+};
+
+export type ListResult = {
+  objects: ObjectMeta[];
+  // absent on the last page
+  nextToken?: string;
+};
+
+export type PresignOption = {
+  method?: 'GET' | 'PUT';
+  // seconds, storage.presignExpires by default
+  expiresIn?: number;
+};
+
+/**
+ * The operations of an object storage, keys are `/` separated paths without a leading `/`.
+ * The missing objects make get() and stream() throw a 404 BizError, and stat() return undefined.
+ */
+export interface StorageDriver {
+  put(key: string, body: StorageBody, option?: PutOption): Promise<ObjectMeta>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string, range?: ByteRange): Promise<Readable>;
+  stat(key: string): Promise<ObjectMeta | undefined>;
+  delete(key: string): Promise<void>;
+  list(prefix?: string, option?: ListOption): Promise<ListResult>;
+  presignedUrl(key: string, option?: PresignOption): Promise<string>;
+}
@@ -0,0 +1,81 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageConfig } from '../ApplicationConfig';
+import { BizError } from '../BizError';
+import { ByteRange, DownloadSource } from '../FileDownload';
+import { extnameOf, UploadMeta, UploadStorage } from '../FileUpload';
+import { LocalStorageDriver } from './LocalStorageDriver';
+import { S3StorageDriver } from './S3StorageDriver';
+import { ListOption, PresignOption, PutOption, StorageBody, StorageDriver } from './StorageDriver';
+
+// where the files of @UploadedFile are kept
+const UPLOAD_PREFIX = 'uploads/';
+
+/**
+ * The object storage of the application, storage.yml picks its driver. storageLoader sets it into the container like RedisClient,
+ * and makes it the UploadStorage of @UploadedFile.
+ */
+export class StorageService implements UploadStorage {
+  constructor(public readonly driver: StorageDriver) {}
+
+  static create(cfg: StorageConfig) {
+    return new StorageService(cfg.driver === 's3' ? new S3StorageDriver(cfg.s3!, cfg.presignExpires) : new LocalStorageDriver(cfg.local, cfg.presignExpires));
+  }
+
+  put(key: string, body: StorageBody, option?: PutOption) {
+    return this.driver.put(key, body, option);
+  }
+
+  get(key: string) {
+    return this.driver.get(key);
+  }
+
+  stream(key: string, range?: ByteRange) {
+    return this.driver.stream(key, range);
+  }
+
+  stat(key: string) {
+    return this.driver.stat(key);
+  }
+
+  delete(key: string) {
+    return this.driver.delete(key);
+  }
+
+  list(prefix?: string, option?: ListOption) {
+    return this.driver.list(prefix, option);
+  }
+
+  presignedUrl(key: string, option?: PresignOption) {
+    return this.driver.presignedUrl(key, option);
+  }
+
+  async save(file: UploadMeta, stream: Readable) {
+    const key = `${UPLOAD_PREFIX}${randomUUID()}${extnameOf(file.originalname)}`;
+    await this.driver.put(key, stream, { contentType: file.mimetype });
+    return { key };
+  }
+
+  remove(key: string) {
+    return this.driver.delete(key);
+  }
+
+  /**
+   * The object for sendFile().
+   */
+  async source(key: string): Promise<DownloadSource> {
+    const meta = await this.driver.stat(key);
+    if (!meta) {
+      throw new BizError('error:fileNotFound', { key }, 404);
+    }
+    return {
+      size: meta.size,
+      fileName: path.posix.basename(key),
+      contentType: meta.contentType,
+      lastModified: meta.lastModified,
+      etag: meta.etag,
+      open: (range) => this.driver.stream(key, range),
+    };
+  }
+}
@@ -0,0 +1,7 @@
+// created from 'create-ts-index'
+
+export * from './LocalStorageDriver';
+export * from './S3StorageDriver';
+export * from './StorageController';
+export * from './StorageDriver';
+export * from './StorageService';
@@ -1,26 +1,41 @@
 /* eslint-disable @typescript-eslint/no-var-requires */
 import internalIp from 'internal-ip';
+import _ from 'lodash';
 import { bootstrapMicroframework, Microframework, MicroframeworkSettings } from 'microframework';
 import 'reflect-metadata';
-import { apiGatewayLoader } from '../libs/ApiGatewayLoader';
+import { apiGatewayLoader, isApiGatewayEnabled } from '../libs/ApiGatewayLoader';
 import { ApplicationConfig } from '../libs/ApplicationConfig';
 import { ConfigManager } from '../libs/ConfigManager';
 import { distributedEventsLoader, DistributedEventsLoaderOption } from '../libs/DistributedEventsLoader';
+import { GracefulShutdown } from '../libs/GracefulShutdown';
 import { koaLoader, KoaLoaderOption } from '../libs/KoaLoader';
+import { LifecycleManager } from '../libs/Lifecycle';
+import { lifecycleLoader } from '../libs/LifecycleLoader';
 import { Logger } from '../libs/Logger';
+import { migrationLoader, MigrationLoaderOption } from '../libs/MigrationLoader';
 import { redisLoader, RedisLoaderOption } from '../libs/RedisLoader';
+import { storageLoader } from '../libs/StorageLoader';
 import { typeormLoader, TypeormLoaderOption } from '../libs/TypeormLoader';
+import { ClassType } from '../libs/types';
 
 export type BootstrapLoader = (settings?: MicroframeworkSettings) => Promise<any>;
 
 export type BootstrapOption = KoaLoaderOption &
   TypeormLoaderOption &
   RedisLoaderOption &
-  DistributedEventsLoaderOption & {
+  DistributedEventsLoaderOption &
+  MigrationLoaderOption & {
     disableRedis?: boolean;
     disableDatabase?: boolean;
     disableEvent?: boolean;
+    // StorageService and the storage of the uploads, see storage.yml
+    disableStorage?: boolean;
+    disableGracefulShutdown?: boolean;
+    // reloads cfg/*.yml when they change, see ConfigManager.onChange()
+    watchConfig?: boolean;
     loaders?: BootstrapLoader[];
+    // config classes of the application by config file name, same as decorating them with @ConfigFile(name)
+    configs?: Record<string, ClassType>;
   };
 
 const settingHolder: {
@@ -30,12 +45,31 @@ const settingHolder: {
 // eslint-disable-next-line @typescript-eslint/no-empty-function
 const emptyLoader = () => {};
 
+// the config files of the disabled features are not required
+const validateConfigs = (option: BootstrapOption) => {
+  _.forEach(option.configs, (type, file) => ConfigManager.register(file, type));
+  const skipped = [option.disableDatabase && option.disableRedis && 'database', option.disableEvent && 'rabbitmq', option.disableStorage && 'storage', !isApiGatewayEnabled() && 'apisix'];
+  ConfigManager.validate(...Object.keys(ConfigManager.registered()).filter((file) => !skipped.includes(file)));
+};
+
+const configWatchLoader = (settings?: MicroframeworkSettings) => {
+  ConfigManager.watch((e) => Logger.getLogger('ConfigManager').error(e.message));
+  settings?.onShutdown(() => ConfigManager.unwatch());
+};
+
 export const bootstrap = async (option: BootstrapOption): Promise<Microframework> => {
+  // fails fast with a ConfigValidationError which lists every invalid key
+  validateConfigs(option);
   const logger = Logger.getLogger('Bootstrap');
   const loaders = [
+    lifecycleLoader(option),
+    option.watchConfig ? configWatchLoader : emptyLoader,
     option.disableDatabase ? emptyLoader : typeormLoader(option),
     option.disableRedis ? emptyLoader : redisLoader(option),
+    option.disableDatabase ? emptyLoader : migrationLoader(option),
     option.disableEvent ? emptyLoader : distributedEventsLoader(option),
+    option.disableStorage ? emptyLoader : storageLoader(),
+    () => LifecycleManager.start(),
     koaLoader(option),
     apiGatewayLoader(option),
     (settings?: MicroframeworkSettings) => {
@@ -61,6 +95,10 @@ export const bootstrap = async (option: BootstrapOption): Promise<Microframework
       const wsPath = `http://${host}:${cfg.port}/api/v${cfg.version}/${applicationName}/socket.io`;
       logger.info(`🚀Server(${applicationName}/v${cfg.version}/${ConfigManager.getPkgVersion()}/${ConfigManager.getBuildNumber()}) is listening on ${wsPath}`);
     }
+    await LifecycleManager.ready();
+    if (!option.disableGracefulShutdown) {
+      GracefulShutdown.trap(mfmk);
+    }
     return mfmk;
   });
 };
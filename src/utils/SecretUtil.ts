@@ -0,0 +1,131 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import _ from 'lodash';
+
+// secret://file/<path>, secret://env/<ENV_VAR> or enc:<base64 of iv + auth tag + cipher text>
+const SECRET_REF = /^secret:\/\/(file|env)\/(.+)$/;
+const ENCRYPTED_PREFIX = 'enc:';
+
+// the key to decrypt the enc: values, or the file which contains it
+export const CONFIG_KEY_ENV = 'BASENODE_CONFIG_KEY';
+export const CONFIG_KEY_FILE_ENV = 'BASENODE_CONFIG_KEY_FILE';
+
+export const REDACTED = '******';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// the shorter secret values, e.g. 1234 or true, would be replaced inside any text of the logs, they are not redacted from the logs
+export const MIN_REDACTED_LENGTH = 8;
+
+// every resolved secret value long enough, they are redacted from the logs
+const secretValues = new Set<string>();
+
+export const isSecret = (value: any): value is string => typeof value === 'string' && (SECRET_REF.test(value) || value.startsWith(ENCRYPTED_PREFIX));
+
+// any key string is stretched to the 32 bytes of aes-256
+const deriveKey = (key: string) => createHash('sha256').update(key.trim()).digest();
+
+const configKey = () => {
+  const keyFile = process.env[CONFIG_KEY_FILE_ENV];
+  const key = keyFile ? fs.readFileSync(keyFile, 'utf8') : process.env[CONFIG_KEY_ENV];
+  if (!key) {
+    throw new Error(`Can not decrypt the config value, neither ${CONFIG_KEY_ENV} nor ${CONFIG_KEY_FILE_ENV} is set.`);
+  }
+  return deriveKey(key);
+};
+
+export const encryptConfigValue = (plain: string, key: string) => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(key), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return `${ENCRYPTED_PREFIX}${Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64')}`;
+};
+
+const decrypt = (value: string) => {
+  const key = configKey();
+  const data = Buffer.from(value.substring(ENCRYPTED_PREFIX.length), 'base64');
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+  } catch (e) {
+    throw new Error(`Can not decrypt the config value, it is corrupted or not encrypted with the key of ${CONFIG_KEY_ENV}.`);
+  }
+};
+
+/**
+ * The value behind a secret reference, it is remembered to be redacted from the logs when it has MIN_REDACTED_LENGTH characters at least.
+ */
+export const resolveSecret = (value: string) => {
+  let resolved: string;
+  if (value.startsWith(ENCRYPTED_PREFIX)) {
+    resolved = decrypt(value);
+  } else {
+    const [, kind, target] = value.match(SECRET_REF)!;
+    if (kind === 'file') {
+      resolved = fs.readFileSync(target, 'utf8').replace(/\r?\n$/, '');
+    } else if (process.env[target] !== undefined) {
+      resolved = process.env[target]!;
+    } else {
+      throw new Error(`Secret ${value} is not found, the environment variable ${target} is not set.`);
+    }
+  }
+  if (resolved.length >= MIN_REDACTED_LENGTH) {
+    secretValues.add(resolved);
+  }
+  return resolved;
+};
+
+/**
+ * Resolves the secret values of the config, returns the dotted paths of them.
+ */
+export const resolveSecrets = (config: Record<string, any>, path: string[] = []): string[] =>
+  _.flatMap(Object.keys(config), (key) => {
+    const value = config[key];
+    if (isSecret(value)) {
+      config[key] = resolveSecret(value);
+      return [[...path, key].join('.')];
+    }
+    return _.isObjectLike(value) ? resolveSecrets(value, [...path, key]) : [];
+  });
+
+const redactString = (value: string) => {
+  let redacted = value;
+  secretValues.forEach((secret) => {
+    redacted = redacted.split(secret).join(REDACTED);
+  });
+  return redacted;
+};
+
+// a copy of the error of the same class, the message and the stack may carry a secret, e.g. the url of a failed connection
+const redactError = (error: Error): Error =>
+  Object.assign(
+    Object.create(Object.getPrototypeOf(error)),
+    _.mapValues({ ...error }, (value) => redactSecrets(value)),
+    {
+      message: redactString(error.message),
+      stack: error.stack && redactString(error.stack),
+    },
+  );
+
+/**
+ * Replaces the secret values inside the strings, errors, plain objects and arrays.
+ */
+export const redactSecrets = <T>(value: T): T => {
+  if (secretValues.size === 0) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return redactString(value) as any;
+  }
+  if (value instanceof Error) {
+    return redactError(value) as any;
+  }
+  if (Array.isArray(value) || _.isPlainObject(value)) {
+    return _.cloneDeepWith(value, (item) => (typeof item === 'string' ? redactString(item) : item instanceof Error ? redactError(item) : undefined));
+  }
+  return value;
+};
@@ -3,45 +3,225 @@
 import fs from 'fs';
 import glob from 'glob-promise';
 import yaml from 'js-yaml';
-// eslint-disable-next-line @typescript-eslint/no-require-imports
-const mergeJSON = require('merge-json');
+import _ from 'lodash';
+import { resolveSecrets } from './SecretUtil';
+
+export const CONFIG_DIR = './cfg';
 
 const configFiles: string[] = [];
 
+// the files are listed again on the next load
+export const rescanConfigFiles = () => {
+  configFiles.splice(0);
+};
+
 const find = (path: string): string | undefined => configFiles.find((f) => f === `${path}.yml`);
 
+// ${ENV_VAR} or ${ENV_VAR:default}
+const PLACEHOLDER = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::([^}]*))?\}/g;
+const WHOLE_PLACEHOLDER = /^\$\{([A-Za-z_][A-Za-z0-9_]*)(?::([^}]*))?\}$/;
+
+// BASENODE_DATABASE__REDIS overrides `redis` of database.yml
+export const ENV_OVERRIDE_PREFIX = 'BASENODE_';
+const ENV_PATH_SEPARATOR = '__';
+
 export interface Config extends Record<string, any> {
   [key: string]: any;
 }
 
-export const loadConfig = (name: string): Config => {
-  if (configFiles.length === 0) {
-    glob.sync('./cfg/*.yml').forEach((f: string) => configFiles.push(f));
+/**
+ * Where each value (by dotted path) of a config file came from.
+ */
+export type ConfigSources = Record<string, string>;
+
+/**
+ * How an array of a higher layer is merged into the same array of the lower layers.
+ */
+export type ArrayMergeStrategy = 'replace' | 'append' | 'unique';
+
+// `$merge: { cors.origins: append }` in any layer file sets the strategy of the array at that path
+const MERGE_STRATEGY_KEY = '$merge';
+
+// from the lowest precedence to the highest
+export type ConfigLayerName = 'base' | 'env' | 'zone' | 'local' | 'environment';
+
+export type ConfigLayer = {
+  layer: ConfigLayerName;
+  source: string;
+  config: Config;
+  // dotted path => the ${ENV_VAR} interpolated into the value
+  interpolated: Record<string, string>;
+};
+
+export type LoadedConfig = {
+  config: Config;
+  sources: ConfigSources;
+  layers: ConfigLayer[];
+  // dotted paths of the resolved secret values
+  secrets: string[];
+};
+
+// numbers and booleans from the environment keep their types
+const parseScalar = (value: string) => {
+  try {
+    const parsed = yaml.load(value);
+    return _.isNil(parsed) || typeof parsed === 'object' ? value : parsed;
+  } catch (e) {
+    return value;
   }
-  const environment = process.env.NODE_ENV;
-  const zone = process.env.DEV_ZONE;
-  const envConfigFile = `./cfg/${name}.${environment}`;
-  const zoneConfigFile = `./cfg/${name}.${zone}`;
-  const configFile = `./cfg/${name}`;
-  let cfg: Config = {};
+};
+
+const interpolateString = (value: string, onEnv: (name: string) => void) => {
+  const whole = value.match(WHOLE_PLACEHOLDER);
+  if (whole) {
+    const [, name, defaultValue] = whole;
+    if (process.env[name] !== undefined) {
+      onEnv(name);
+      return parseScalar(process.env[name]!);
+    }
+    return defaultValue === undefined ? '' : parseScalar(defaultValue);
+  }
+  return value.replace(PLACEHOLDER, (__, name: string, defaultValue?: string) => {
+    if (process.env[name] !== undefined) {
+      onEnv(name);
+      return process.env[name]!;
+    }
+    return defaultValue ?? '';
+  });
+};
+
+/**
+ * Replaces the `${ENV_VAR:default}` placeholders in every string value.
+ */
+export const interpolate = (value: any, onEnv: (path: string, name: string) => void = () => {}, path: string[] = []): any => {
+  if (typeof value === 'string') {
+    return interpolateString(value, (name) => onEnv(path.join('.'), name));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, idx) => interpolate(item, onEnv, [...path, `${idx}`]));
+  }
+  if (_.isPlainObject(value)) {
+    return _.mapValues(value, (item, key) => interpolate(item, onEnv, [...path, key]));
+  }
+  return value;
+};
 
-  const envFile = find(envConfigFile);
-  if (envFile) {
-    const envConfig = yaml.load(fs.readFileSync(envFile, 'utf8')) as Config;
-    Object.assign(cfg, envConfig);
+const leafPaths = (value: any, path: string[] = []): string[] => {
+  if (_.isPlainObject(value) && Object.keys(value).length > 0) {
+    return _.flatMap(Object.keys(value), (key) => leafPaths(value[key], [...path, key]));
   }
+  return path.length > 0 ? [path.join('.')] : [];
+};
+
+const normalizeKey = (key: string) => key.replace(/_/g, '').toLowerCase();
+
+// Matches the env var segments against the existing keys, ignoring case and underscores.
+const resolvePath = (cfg: Config, segments: string[]) => {
+  const path: string[] = [];
+  let current: any = cfg;
+  segments.forEach((segment) => {
+    const key = _.isPlainObject(current) ? Object.keys(current).find((k) => normalizeKey(k) === normalizeKey(segment)) : undefined;
+    path.push(key ?? _.camelCase(segment));
+    current = key ? current[key] : undefined;
+  });
+  return path;
+};
+
+// The BASENODE_<FILE>__<KEY>__<SUB_KEY> environment variables of the file, as a layer on top of cfg
+const envOverridesLayer = (name: string, cfg: Config): ConfigLayer => {
+  const prefix = `${ENV_OVERRIDE_PREFIX}${name}${ENV_PATH_SEPARATOR}`.toUpperCase();
+  const layer: ConfigLayer = { layer: 'environment', source: 'env', config: {}, interpolated: {} };
+  Object.keys(process.env)
+    .filter((envName) => envName.toUpperCase().startsWith(prefix))
+    .sort()
+    .forEach((envName) => {
+      const segments = envName.substring(prefix.length).split(ENV_PATH_SEPARATOR).filter(Boolean);
+      if (segments.length > 0) {
+        const path = resolvePath(cfg, segments);
+        _.set(layer.config, path, parseScalar(process.env[envName]!));
+        layer.interpolated[path.join('.')] = envName;
+      }
+    });
+  return layer;
+};
+
+/**
+ * Deep merges the override into the base, the arrays are merged by the strategies of their dotted paths ('replace' by default).
+ */
+export const mergeConfig = (base: Config, override: Config, strategies: Record<string, ArrayMergeStrategy> = {}, path: string[] = []): Config => {
+  const merged: Config = { ...base };
+  Object.keys(override).forEach((key) => {
+    const keyPath = [...path, key];
+    const [current, value] = [merged[key], override[key]];
+    if (_.isPlainObject(current) && _.isPlainObject(value)) {
+      merged[key] = mergeConfig(current, value, strategies, keyPath);
+    } else if (Array.isArray(current) && Array.isArray(value)) {
+      const strategy = strategies[keyPath.join('.')] ?? 'replace';
+      merged[key] = strategy === 'replace' ? value : strategy === 'append' ? [...current, ...value] : _.uniqWith([...current, ...value], _.isEqual);
+    } else {
+      merged[key] = value;
+    }
+  });
+  return merged;
+};
 
-  const zoneFile = find(zoneConfigFile);
-  if (zoneFile) {
-    const zoneConfig = yaml.load(fs.readFileSync(zoneFile, 'utf8')) as Config;
-    Object.assign(cfg, zoneConfig);
+const describeSource = (layer: ConfigLayer, path: string) => {
+  const envName = layer.interpolated[path];
+  if (layer.layer === 'environment') {
+    return `env:${envName}`;
   }
+  return envName ? `${layer.source} (\${${envName}})` : layer.source;
+};
+
+const readConfigLayer = (layer: ConfigLayerName, file: string): ConfigLayer => {
+  const raw = (yaml.load(fs.readFileSync(file, 'utf8')) ?? {}) as Config;
+  const interpolated: Record<string, string> = {};
+  const config = interpolate(raw, (path, envName) => (interpolated[path] = envName)) as Config;
+  return { layer, source: file, config, interpolated };
+};
 
-  const file = find(configFile);
-  if (file) {
-    const config = yaml.load(fs.readFileSync(file, 'utf8')) as Config;
-    cfg = mergeJSON.merge(cfg, config);
+export const loadConfigWithSources = (name: string): LoadedConfig => {
+  if (configFiles.length === 0) {
+    glob.sync(`${CONFIG_DIR}/*.yml`).forEach((f: string) => configFiles.push(f));
   }
+  const environment = process.env.NODE_ENV;
+  const zone = process.env.DEV_ZONE;
+  // name.local.yml is for the developer's machine only, it is not committed
+  const files: Array<[ConfigLayerName, string | undefined]> = [
+    ['base', find(`${CONFIG_DIR}/${name}`)],
+    ['env', environment ? find(`${CONFIG_DIR}/${name}.${environment}`) : undefined],
+    ['zone', zone ? find(`${CONFIG_DIR}/${name}.${zone}`) : undefined],
+    ['local', find(`${CONFIG_DIR}/${name}.local`)],
+  ];
+  const layers = files.filter(([, file]) => !!file).map(([layer, file]) => readConfigLayer(layer, file!));
+  const strategies: Record<string, ArrayMergeStrategy> = Object.assign({}, ...layers.map((layer) => layer.config[MERGE_STRATEGY_KEY]));
+  layers.forEach((layer) => delete layer.config[MERGE_STRATEGY_KEY]);
 
-  return cfg;
+  const fileConfig = layers.reduce((cfg, layer) => mergeConfig(cfg, layer.config, strategies), {} as Config);
+  layers.push(envOverridesLayer(name, fileConfig));
+  // the layers keep the secret references, only the merged config has the secret values
+  const config = _.cloneDeep(mergeConfig(fileConfig, layers[layers.length - 1].config, strategies));
+  const secrets = resolveSecrets(config);
+
+  const sources: ConfigSources = {};
+  leafPaths(config).forEach((path) => {
+    const layer = _.findLast(layers, (l) => _.has(l.config, path));
+    if (layer) {
+      sources[path] = describeSource(layer, path);
+    }
+  });
+  return { config, sources, layers, secrets };
+};
+
+export type ConfigLayerValue = {
+  layer: ConfigLayerName;
+  source: string;
+  value: any;
 };
+
+/**
+ * The value of the dotted path in every layer which has it, from the lowest precedence to the highest.
+ */
+export const explainConfig = (layers: ConfigLayer[], path: string): ConfigLayerValue[] => layers.filter((layer) => _.has(layer.config, path)).map((layer) => ({ layer: layer.layer, source: describeSource(layer, path), value: _.get(layer.config, path) }));
+
+export const loadConfig = (name: string): Config => loadConfigWithSources(name).config;
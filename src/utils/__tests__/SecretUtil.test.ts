@@ -0,0 +1,23 @@
+import { REDACTED, redactSecrets, resolveSecret } from '../SecretUtil';
+
+describe('redactSecrets', () => {
+  beforeAll(() => {
+    process.env.TEST_SHORT_SECRET = '1234';
+    process.env.TEST_LONG_SECRET = 's3cr3t-passw0rd';
+    resolveSecret('secret://env/TEST_SHORT_SECRET');
+    resolveSecret('secret://env/TEST_LONG_SECRET');
+  });
+
+  it('redacts the secrets inside the strings, objects and errors', () => {
+    expect(redactSecrets('redis://:s3cr3t-passw0rd@redis:6379')).toBe(`redis://:${REDACTED}@redis:6379`);
+    expect(redactSecrets({ url: ['s3cr3t-passw0rd'] })).toEqual({ url: [REDACTED] });
+    const error = redactSecrets(new TypeError('login with s3cr3t-passw0rd failed'));
+    expect(error).toBeInstanceOf(TypeError);
+    expect(error.message).toBe(`login with ${REDACTED} failed`);
+    expect(error.stack).not.toContain('s3cr3t-passw0rd');
+  });
+
+  it('leaves the text matching a short secret as it is', () => {
+    expect(redactSecrets('order 12345 took 1234ms')).toBe('order 12345 took 1234ms');
+  });
+});
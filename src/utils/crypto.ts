@@ -3,6 +3,8 @@ import { readFileSync } from 'fs';
 import { ApplicationConfig } from '../libs/ApplicationConfig';
 import { ConfigManager } from '../libs/ConfigManager';
 
+export type HmacAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
 interface KeyCache {
   privateKey?: string;
   publicKey?: string;
@@ -15,8 +17,18 @@ class FotCrypto {
     const md5 = createHash('md5');
     return md5.update(input).digest('hex');
   }
+
+  sha256(input: string | Buffer) {
+    return createHash('sha256').update(input).digest('hex');
+  }
+
   sha1Hmac(input: string): string {
-    const hmac = createHmac('sha1', this.privateKey);
+    return this.hmac(input, 'sha1');
+  }
+
+  // keyed by the application private key unless another key is given
+  hmac(input: string, algorithm: HmacAlgorithm = 'sha256', key: string = this.privateKey): string {
+    const hmac = createHmac(algorithm, key);
     hmac.update(input);
     return hmac.digest('hex');
   }
@@ -24,14 +36,15 @@ class FotCrypto {
   get privateKey(): string {
     const config = ConfigManager.getConfig<ApplicationConfig>('application');
     if (!FotCrypto.keyCache.privateKey) {
-      FotCrypto.keyCache.privateKey = readFileSync(config.privateKeyPath, 'ascii');
+      FotCrypto.keyCache.privateKey = config.privateKey ?? readFileSync(config.privateKeyPath, 'ascii');
     }
     return FotCrypto.keyCache.privateKey;
   }
+
   get publicKey(): string {
     const config = ConfigManager.getConfig<ApplicationConfig>('application');
     if (!FotCrypto.keyCache.publicKey) {
-      FotCrypto.keyCache.publicKey = readFileSync(config.publicKeyPath, 'ascii');
+      FotCrypto.keyCache.publicKey = config.publicKey ?? readFileSync(config.publicKeyPath, 'ascii');
     }
     return FotCrypto.keyCache.publicKey;
   }
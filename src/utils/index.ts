@@ -1,6 +1,8 @@
 // created from 'create-ts-index'
 
+export * from './SecretUtil';
 export * from './YamlUtil';
 export * from './crypto';
+export * from './jwtKeys';
 export * from './jwtUtil';
 export * from './transformer';
@@ -0,0 +1,166 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createHash, createPrivateKey, createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { promises as fs, readFileSync } from 'fs';
+import http from 'http';
+import https from 'https';
+import { JwtConfig, JwtKeyConfig } from '../libs/ApplicationConfig';
+import { ConfigManager } from '../libs/ConfigManager';
+import { Logger } from '../libs/Logger';
+import { crypto } from './crypto';
+
+export type JwtKey = {
+  kid: string;
+  algorithm: string;
+  // absent on the keys which only verify
+  privateKey?: KeyObject;
+  publicKey: KeyObject;
+};
+
+// the unknown kids refresh the JWKS at most that often
+const MIN_REFRESH_INTERVAL = 30 * 1000;
+const FETCH_TIMEOUT = 5000;
+
+const jwtConfig = () => ConfigManager.getConfig<JwtConfig>('jwt');
+
+const readKey = (content?: string, path?: string) => content ?? (path ? readFileSync(path, 'ascii') : undefined);
+
+// RFC 7638, the kid of application.privateKey/publicKey
+const thumbprint = (key: KeyObject) => {
+  const jwk = key.export({ format: 'jwk' });
+  const members = jwk.kty === 'EC' ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y } : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+};
+
+const toKey = (cfg: JwtKeyConfig): JwtKey => {
+  const privatePem = readKey(cfg.privateKey, cfg.privateKeyPath);
+  const publicPem = readKey(cfg.publicKey, cfg.publicKeyPath);
+  const privateKey = privatePem ? createPrivateKey(privatePem) : undefined;
+  if (!privateKey && !publicPem) {
+    throw new Error(`The jwt key ${cfg.kid} has neither a private nor a public key.`);
+  }
+  return { kid: cfg.kid, algorithm: cfg.algorithm, privateKey, publicKey: createPublicKey(publicPem ?? privateKey!) };
+};
+
+const getJson = (url: string) =>
+  new Promise<any>((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.get(url, { timeout: FETCH_TIMEOUT }, (res) => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => (data += chunk));
+      res.on('end', () => {
+        if ((res.statusCode ?? 500) >= 300) {
+          reject(new Error(`GET ${url} responded ${res.statusCode}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(data));
+        } catch (e) {
+          reject(e);
+        }
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error(`GET ${url} timed out`)));
+    req.on('error', reject);
+  });
+
+/**
+ * The keys signing and verifying the tokens: the keys of jwt.yml (or application.privateKey/publicKey), and the keys of jwks.url/jwks.file.
+ */
+class JwtKeys {
+  private ownKeys?: JwtKey[];
+
+  private remoteKeys = new Map<string, KeyObject>();
+
+  private fetchedAt = 0;
+
+  private fetching?: Promise<void>;
+
+  private listening = false;
+
+  private get own(): JwtKey[] {
+    if (!this.listening) {
+      this.listening = true;
+      ConfigManager.onChange('jwt', () => {
+        this.ownKeys = undefined;
+        this.fetchedAt = 0;
+      });
+    }
+    if (!this.ownKeys) {
+      const cfg = jwtConfig();
+      if (cfg.keys.length > 0) {
+        this.ownKeys = cfg.keys.map(toKey);
+      } else {
+        const publicKey = createPublicKey(crypto.publicKey);
+        this.ownKeys = [{ kid: thumbprint(publicKey), algorithm: 'RS256', privateKey: createPrivateKey(crypto.privateKey), publicKey }];
+      }
+    }
+    return this.ownKeys;
+  }
+
+  signingKey(): JwtKey {
+    const { signingKid } = jwtConfig();
+    const key = signingKid ? this.own.find((k) => k.kid === signingKid) : this.own.find((k) => k.privateKey);
+    if (!key?.privateKey) {
+      throw new Error(`No private key of jwt.signingKid ${signingKid ?? ''} to sign the tokens.`);
+    }
+    return key;
+  }
+
+  /**
+   * The key verifying the tokens of the kid, the signing key for the tokens without a kid.
+   */
+  publicKey(kid?: string): KeyObject | undefined {
+    if (!kid) {
+      return (this.own.find((k) => k.kid === jwtConfig().signingKid) ?? this.own[0]).publicKey;
+    }
+    return this.own.find((k) => k.kid === kid)?.publicKey ?? this.remoteKeys.get(kid);
+  }
+
+  /**
+   * The public keys of this application, as served by JwksController.
+   */
+  jwks(): { keys: JsonWebKey[] } {
+    return { keys: this.own.map((key) => ({ ...key.publicKey.export({ format: 'jwk' }), kid: key.kid, alg: key.algorithm, use: 'sig' })) };
+  }
+
+  /**
+   * Loads jwks.url and jwks.file when their cache expired, or earlier for an unknown kid.
+   * The keys of the last successful load are kept when it fails.
+   */
+  async load(kid?: string) {
+    const { jwks } = jwtConfig();
+    if (!jwks.url && !jwks.file) {
+      return;
+    }
+    const age = Date.now() - this.fetchedAt;
+    const unknown = !!kid && !this.publicKey(kid);
+    if (age < jwks.cacheTtl * 1000 && !(unknown && age >= MIN_REFRESH_INTERVAL)) {
+      return;
+    }
+    this.fetching =
+      this.fetching ??
+      this.fetch().finally(() => {
+        this.fetching = undefined;
+      });
+    await this.fetching;
+  }
+
+  private async fetch() {
+    const { jwks } = jwtConfig();
+    try {
+      const sets = await Promise.all([jwks.url ? getJson(jwks.url) : undefined, jwks.file ? fs.readFile(jwks.file, 'utf8').then((json) => JSON.parse(json)) : undefined]);
+      const keys = new Map<string, KeyObject>();
+      sets
+        .flatMap((set) => (Array.isArray(set?.keys) ? set.keys : []))
+        .filter((jwk: JsonWebKey) => jwk.kid && (!jwk.use || jwk.use === 'sig'))
+        .forEach((jwk: JsonWebKey) => keys.set(jwk.kid as string, createPublicKey({ key: jwk, format: 'jwk' })));
+      this.remoteKeys = keys;
+    } catch (e) {
+      Logger.getLogger('JwtKeys').error(e, 'Failed to load the JWKS.');
+    }
+    this.fetchedAt = Date.now();
+  }
+}
+
+export const jwtKeys = new JwtKeys();
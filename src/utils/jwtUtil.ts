@@ -1,31 +1,45 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import jwt from 'jsonwebtoken';
 import _ from 'lodash';
-import { crypto } from './crypto';
+import { JwtConfig } from '../libs/ApplicationConfig';
+import { ConfigManager } from '../libs/ConfigManager';
+import { jwtKeys } from './jwtKeys';
+
+const jwtConfig = () => ConfigManager.getConfig<JwtConfig>('jwt');
 
 class JwtUtil {
-  issueToken(payload: Record<string, any>, options: jwt.SignOptions = { algorithm: 'RS256' }) {
-    const privateKey = crypto.privateKey;
-    return jwt.sign(payload, privateKey, options);
+  /**
+   * Signs with the signing key of jwt.yml, its kid in the header, and the issuer/audience of jwt.yml unless the payload has them.
+   */
+  issueToken(payload: Record<string, any>, options: jwt.SignOptions = {}) {
+    const cfg = jwtConfig();
+    const key = jwtKeys.signingKey();
+    const claims = _.omitBy({ issuer: payload.iss ? undefined : cfg.issuer, audience: payload.aud || _.isEmpty(cfg.audience) ? undefined : cfg.audience }, _.isNil);
+    return jwt.sign(payload, key.privateKey!, { algorithm: key.algorithm as jwt.Algorithm, keyid: key.kid, ...claims, ...options });
   }
 
-  verifyToken(token: string, options: jwt.VerifyOptions = { algorithms: ['RS256'] }) {
-    const publicKey = crypto.publicKey;
-    return jwt.verify(token, publicKey, options) as Record<string, string>;
+  /**
+   * Verifies with the key of the kid of the token, and the algorithms, issuer, audience and clock tolerance of jwt.yml.
+   * Only the cached keys of jwks.url/jwks.file are used, see verifyJwt().
+   */
+  verifyToken(token: string, options: jwt.VerifyOptions = {}) {
+    const cfg = jwtConfig();
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    const publicKey = jwtKeys.publicKey(kid);
+    if (!publicKey) {
+      throw new jwt.JsonWebTokenError(`unknown kid ${kid}`);
+    }
+    const claims = _.omitBy({ issuer: cfg.issuer, audience: _.isEmpty(cfg.audience) ? undefined : (cfg.audience as [string, ...string[]]) }, _.isNil);
+    return jwt.verify(token, publicKey, { algorithms: cfg.algorithms as jwt.Algorithm[], clockTolerance: cfg.clockTolerance, ...claims, ...options }) as Record<string, string>;
   }
 
   decodeToken(token: string, options: jwt.DecodeOptions = { complete: false }) {
     return jwt.decode(token, options);
   }
 
-  decodeJwt(authorization: string, verify = false, options: jwt.VerifyOptions = { algorithms: ['RS256'] }) {
-    const authStr = _.trim(authorization);
+  decodeJwt(authorization: string, verify = false, options: jwt.VerifyOptions = {}) {
+    const tokenStr = this.bearerToken(authorization);
     let token: any;
-    let tokenStr = authStr;
-    if (authStr.startsWith('Bearer ')) {
-      // Remove Bearer from string
-      tokenStr = authStr.slice(7, authStr.length);
-    }
     if (!_.isNil(tokenStr)) {
       if (verify) {
         token = this.verifyToken(tokenStr, options);
@@ -35,6 +49,21 @@ class JwtUtil {
     }
     return token;
   }
+
+  /**
+   * Verifies the token of the Authorization header, loading the keys of jwks.url/jwks.file first when they expired or the kid is unknown.
+   */
+  async verifyJwt(authorization: string, options: jwt.VerifyOptions = {}) {
+    const tokenStr = this.bearerToken(authorization);
+    await jwtKeys.load(jwt.decode(tokenStr, { complete: true })?.header.kid);
+    return this.verifyToken(tokenStr, options);
+  }
+
+  private bearerToken(authorization: string) {
+    const authStr = _.trim(authorization);
+    // Remove Bearer from string
+    return authStr.startsWith('Bearer ') ? authStr.slice(7, authStr.length) : authStr;
+  }
 }
 
 export const jwtUtil = new JwtUtil();
@@ -0,0 +1,14 @@
+import 'reflect-metadata';
+import { DataSource } from 'typeorm';
+import { ConfigManager, DatabaseConfig, dialectOptions } from '../src';
+
+// Data source for the TypeORM CLI, used by the gen:migration and migrate:* scripts.
+const cfg = ConfigManager.getConfig<DatabaseConfig>('database');
+const output = cfg.output || './src';
+
+export default new DataSource({
+  ...dialectOptions(cfg),
+  entities: [`${output}/entities/*.ts`],
+  migrations: [`${cfg.migrationsDir || `${output}/migrations`}/*.ts`],
+  logging: true,
+});
@@ -2,16 +2,17 @@
 import { camelCase, startCase } from 'lodash';
 import { URL } from 'url';
 import tables from '../gen_db.json';
-import { ConfigManager, DatabaseConfig } from '../src';
+import { ConfigManager, DatabaseConfig, databaseUrl, resolveDialect } from '../src';
 
 const Entities = tables.map((n) => startCase(camelCase(n)).replace(/ /g, ''));
 
 const cfg = ConfigManager.getConfig<DatabaseConfig>('database');
-const db = new URL(cfg.mariaDBUrl);
+const db = new URL(databaseUrl(cfg));
+const engine = resolveDialect(cfg).replace('better-sqlite3', 'sqlite');
 const { hostname, pathname, port, username, password } = db;
 const argv = process.argv;
 
-const configs: string[] = ['-h', hostname, '-d', pathname.substr(1), '-p', port, '-u', username, '-x', password, '-e', 'mariadb', '-o', `${cfg.output || './src'}/repositories`, '--noConfig', '--cf', 'pascal', '--ce', 'pascal', '--cp', 'camel', '--relationIds', '--generateConstructor'];
+const configs: string[] = ['-h', hostname, '-d', pathname.substr(1), '-p', port, '-u', username, '-x', password, '-e', engine, '-o', `${cfg.output || './src'}/repositories`, '--noConfig', '--cf', 'pascal', '--ce', 'pascal', '--cp', 'camel', '--relationIds', '--generateConstructor'];
 // '--active-record',
 configs.map((c) => argv.push(c));
 